@@ -1,123 +1,259 @@
-import { useState, useMemo } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { BarChart3, LineChart, ScatterChart, PieChart, TrendingUp } from 'lucide-react';
-import { BarChart, Bar, LineChart as RechartsLineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ScatterChart as RechartsScatterChart, Scatter, PieChart as RechartsPieChart, Pie, Cell } from 'recharts';
+import { Switch } from '@/components/ui/switch';
+import { BarChart3, LineChart, ScatterChart, PieChart, TrendingUp, AreaChart as AreaChartIcon, BarChartBig, CandlestickChart, Grid3x3, Plus, X, AlertCircle, Download, Upload, FileJson, Image as ImageIcon } from 'lucide-react';
+import { useProfile } from '@/hooks/use-profile';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/csv';
+import { formatNumber } from '@/lib/utils';
+import { PNG_SCALES, composeChartSvg, findChartSvg, renderChartPng, type LegendItem } from '@/lib/chartExport';
+import { GRANULARITIES, type Granularity } from '@/lib/dates';
+import {
+  AGGREGATIONS,
+  STACKINGS,
+  TRANSFORMS,
+  chartData as buildChartData,
+  chartTitle,
+  normalizeChartConfig,
+  parseChartSpec,
+  suggestChartConfig,
+  toChartSpec,
+  type BoxStats,
+  type ChartConfig,
+  type ChartData,
+  type ChartMeasure,
+  type ChartTransform,
+  type ChartType,
+  type SortBy,
+  type SortOrder,
+  type Stacking,
+} from '@/lib/charts';
+import { BarChart, Bar, LineChart as RechartsLineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart as RechartsScatterChart, Scatter, PieChart as RechartsPieChart, Pie, Cell, type TooltipProps } from 'recharts';
 
 interface ChartBuilderProps {
   data: any[];
   fileName: string;
+  config: ChartConfig;
+  onConfigChange: (config: ChartConfig) => void;
 }
 
-const CHART_TYPES = [
+const CHART_TYPES: { id: ChartType; name: string; icon: typeof BarChart3 }[] = [
   { id: 'bar', name: 'Bar Chart', icon: BarChart3 },
   { id: 'line', name: 'Line Chart', icon: LineChart },
+  { id: 'area', name: 'Area Chart', icon: AreaChartIcon },
   { id: 'scatter', name: 'Scatter Plot', icon: ScatterChart },
   { id: 'pie', name: 'Pie Chart', icon: PieChart },
+  { id: 'histogram', name: 'Histogram', icon: BarChartBig },
+  { id: 'box', name: 'Box Plot', icon: CandlestickChart },
+  { id: 'heatmap', name: 'Heatmap', icon: Grid3x3 },
 ];
 
-const COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444'];
+const COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#64748b'];
+
+// Types that plot measures against categories, with grouping and several Y measures
+const CATEGORY_TYPES: ChartType[] = ['bar', 'line', 'area'];
+// Types that split into one series per value of the color / series column
+const SERIES_TYPES: ChartType[] = [...CATEGORY_TYPES, 'scatter'];
+
+const baseName = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '');
+
+const colorOf = (index: number) => COLORS[index % COLORS.length];
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+// Aggregations that also work on text columns
+const COUNTING = new Set(['count', 'count_distinct']);
+
+// Series of one measure stack together; different measures never stack onto each other
+const stackOf = (key: string) => key.replace(/s\d+$/, '');
+
+// Whiskers, box and median line inside the whisker-to-whisker bar recharts lays out
+function BoxShape({ x = 0, y = 0, width = 0, height = 0, payload, fill }: { x?: number; y?: number; width?: number; height?: number; payload?: BoxStats; fill?: string }) {
+  if (!payload) return null;
+  const { low, q1, median, q3, high } = payload;
+  const at = (value: number) => (high === low ? y + height / 2 : y + (height * (high - value)) / (high - low));
+  const boxWidth = Math.min(width, 48);
+  const left = x + (width - boxWidth) / 2;
+  const center = x + width / 2;
+  return (
+    <g stroke={fill}>
+      <line x1={center} x2={center} y1={at(high)} y2={at(low)} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={at(high)} y2={at(high)} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={at(low)} y2={at(low)} />
+      <rect x={left} y={at(q3)} width={boxWidth} height={Math.max(1, at(q1) - at(q3))} fill={fill} fillOpacity={0.3} />
+      <line x1={left} x2={left + boxWidth} y1={at(median)} y2={at(median)} strokeWidth={2} />
+    </g>
+  );
+}
+
+function BoxTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload?.length) return null;
+  const stats = payload[0].payload as BoxStats & { name: string };
+  const rows: [string, number][] = [
+    ['Max (whisker)', stats.high],
+    ['Q3', stats.q3],
+    ['Median', stats.median],
+    ['Q1', stats.q1],
+    ['Min (whisker)', stats.low],
+  ];
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+      <div className="font-medium mb-1">{stats.name}</div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-muted-foreground">{label}</span>
+          <span>{formatNumber(value)}</span>
+        </div>
+      ))}
+      <div className="mt-1 text-muted-foreground">
+        {stats.count.toLocaleString()} values · {stats.outliers.toLocaleString()} outliers
+      </div>
+    </div>
+  );
+}
+
+const HEATMAP_CELL = 28;
+const HEATMAP_LABEL = 110;
+
+// Drawn as plain SVG: rows and columns are categories, so there are no numeric axes to scale
+function HeatmapChart({ chart }: { chart: ChartData }) {
+  const xLabels = chart.xLabels || [];
+  const yLabels = chart.yLabels || [];
+  const largest = Math.max(...chart.points.map(point => Math.abs(point.value as number)), 0) || 1;
+  const width = HEATMAP_LABEL + xLabels.length * HEATMAP_CELL;
+  const height = HEATMAP_LABEL + yLabels.length * HEATMAP_CELL;
+  const truncate = (label: string) => (label.length > 16 ? `${label.slice(0, 15)}…` : label);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" style={{ maxHeight: 480 }} fontSize={10}>
+      {xLabels.map((label, i) => (
+        <text
+          key={label}
+          transform={`translate(${HEATMAP_LABEL + (i + 0.5) * HEATMAP_CELL}, ${HEATMAP_LABEL - 6}) rotate(-60)`}
+          fill="currentColor"
+        >
+          {truncate(label)}
+        </text>
+      ))}
+      {yLabels.map((label, i) => (
+        <text key={label} x={HEATMAP_LABEL - 6} y={HEATMAP_LABEL + (i + 0.5) * HEATMAP_CELL} textAnchor="end" dominantBaseline="middle" fill="currentColor">
+          {truncate(label)}
+        </text>
+      ))}
+      {chart.points.map(point => {
+        const value = point.value as number;
+        const alpha = Math.abs(value) / largest;
+        return (
+          <rect
+            key={`${point.x}\u0000${point.y}`}
+            x={HEATMAP_LABEL + xLabels.indexOf(point.x as string) * HEATMAP_CELL + 1}
+            y={HEATMAP_LABEL + yLabels.indexOf(point.y as string) * HEATMAP_CELL + 1}
+            width={HEATMAP_CELL - 2}
+            height={HEATMAP_CELL - 2}
+            rx={2}
+            fill={value >= 0 ? `rgba(59, 130, 246, ${alpha.toFixed(2)})` : `rgba(239, 68, 68, ${alpha.toFixed(2)})`}
+          >
+            <title>{`${point.y} × ${point.x}: ${formatNumber(value)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function ChartBuilder({ data, fileName, config, onConfigChange }: ChartBuilderProps) {
+  const { profile } = useProfile(data);
+  // Until any axis is picked, the chart starts from the columns' semantic types
+  const suggested = useMemo(() => (profile ? suggestChartConfig(profile) : null), [profile]);
+  // Settings saved before a field existed take its default
+  const saved = normalizeChartConfig(config);
+  const current = !saved.xAxis && !saved.yAxis && suggested ? { ...saved, ...suggested } : saved;
+  const {
+    chartType, xAxis, yAxis, aggregation, measures, series, heatmapRows, stacking, granularity, fillGaps, transform, rollingWindow,
+    sortBy, sortOrder, limit, otherBucket, bins, binWidth,
+  } = current;
+  const update = (changes: Partial<ChartConfig>) => onConfigChange({ ...current, ...changes });
+  const setXAxis = (xAxis: string) => update({ xAxis });
+  const setYAxis = (yAxis: string) => update({ yAxis });
+  const setAggregation = (aggregation: string) => update({ aggregation });
+  const setSeries = (series: string) => update({ series });
+  const setStacking = (stacking: Stacking) => update({ stacking });
+  const updateMeasure = (index: number, changes: Partial<ChartMeasure>) =>
+    update({ measures: measures.map((measure, i) => (i === index ? { ...measure, ...changes } : measure)) });
+  const removeMeasure = (index: number) => update({ measures: measures.filter((_, i) => i !== index) });
+  const chartArea = useRef<HTMLDivElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [scale, setScale] = useState('2');
+  const { toast } = useToast();
 
-export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
-  const [chartType, setChartType] = useState('bar');
-  const [xAxis, setXAxis] = useState('');
-  const [yAxis, setYAxis] = useState('');
-  const [groupBy, setGroupBy] = useState('none');
-  const [aggregation, setAggregation] = useState('sum');
-  
   const columns = useMemo(() => {
     if (!data || data.length === 0) return [];
     return Object.keys(data[0] || {});
   }, [data]);
-  
+
+  // Column types come from the full-dataset profile once the worker has scanned every row
   const numericColumns = useMemo(() => {
-    return columns.filter(col => {
-      const sample = data.slice(0, 10);
-      return sample.every(row => !isNaN(Number(row[col])) && row[col] !== '' && row[col] !== null);
-    });
-  }, [columns, data]);
-  
+    if (!profile) return [];
+    return profile.columns.filter(col => col.type === 'numeric').map(col => col.name);
+  }, [profile]);
+
   const textColumns = useMemo(() => {
     return columns.filter(col => !numericColumns.includes(col));
   }, [columns, numericColumns]);
-  
-  const chartData = useMemo(() => {
-    if (!data || !xAxis) return [];
-    
-    if (chartType === 'pie') {
-      // For pie chart, group by the selected column and count occurrences
-      const groups: Record<string, number> = {};
-      data.forEach(row => {
-        const key = String(row[xAxis] || 'Unknown');
-        groups[key] = (groups[key] || 0) + 1;
-      });
-      
-      return Object.entries(groups)
-        .map(([name, value]) => ({ name, value }))
-        .sort((a, b) => b.value - a.value)
-        .slice(0, 10); // Top 10 for readability
-    }
-    
-    if (chartType === 'scatter') {
-      if (!yAxis) return [];
-      return data
-        .filter(row => !isNaN(Number(row[xAxis])) && !isNaN(Number(row[yAxis])))
-        .map(row => ({
-          x: Number(row[xAxis]),
-          y: Number(row[yAxis]),
-          name: row[groupBy] || 'Data Point'
-        }))
-        .slice(0, 1000); // Limit for performance
-    }
-    
-    // For bar and line charts
-    if (!yAxis) return [];
-    
-    if (groupBy && groupBy !== 'none') {
-      // Group data and aggregate
-      const groups: Record<string, number[]> = {};
-      data.forEach(row => {
-        const key = String(row[groupBy] || 'Unknown');
-        if (!groups[key]) groups[key] = [];
-        const value = Number(row[yAxis]);
-        if (!isNaN(value)) groups[key].push(value);
-      });
-      
-      return Object.entries(groups).map(([name, values]) => {
-        let aggregatedValue = 0;
-        switch (aggregation) {
-          case 'sum':
-            aggregatedValue = values.reduce((sum, val) => sum + val, 0);
-            break;
-          case 'avg':
-            aggregatedValue = values.reduce((sum, val) => sum + val, 0) / values.length;
-            break;
-          case 'count':
-            aggregatedValue = values.length;
-            break;
-          case 'max':
-            aggregatedValue = Math.max(...values);
-            break;
-          case 'min':
-            aggregatedValue = Math.min(...values);
-            break;
-        }
-        return { name, value: aggregatedValue };
-      }).sort((a, b) => b.value - a.value).slice(0, 20);
-    } else {
-      // Direct mapping
-      return data
-        .filter(row => row[xAxis] && !isNaN(Number(row[yAxis])))
-        .map(row => ({
-          name: String(row[xAxis]),
-          value: Number(row[yAxis])
-        }))
-        .slice(0, 50);
-    }
-  }, [data, xAxis, yAxis, groupBy, aggregation, chartType]);
-  
+
+  // Date columns on the X axis of bar, line and area charts are resampled by period
+  const categorical = CATEGORY_TYPES.includes(chartType);
+  const timeAxis = categorical && !!profile?.columns.some(col => col.name === xAxis && col.type === 'date');
+
+  // Scatter plots and histograms need a numeric x; keep the measure rather than show nothing
+  const setChartType = (chartType: ChartType) => {
+    const numericX = chartType === 'scatter' || chartType === 'histogram';
+    // "None" is only a category for box plots
+    const x = xAxis === 'none' && chartType !== 'box' ? '' : xAxis;
+    const validX = !numericX || numericColumns.includes(x);
+    update({ chartType, xAxis: validX ? x : yAxis || numericColumns[0] || '' });
+  };
+
+  // The next numeric column not plotted yet
+  const addMeasure = () => {
+    const used = [yAxis, ...measures.map(measure => measure.column)];
+    const column = numericColumns.find(col => !used.includes(col)) || numericColumns[0] || '';
+    update({ measures: [...measures, { column, aggregation, secondary: false }] });
+  };
+
+  const chart = useMemo(
+    () => buildChartData(
+      data || [],
+      {
+        // The title doesn't change the data, so editing it doesn't recompute the chart
+        title: '',
+        chartType, xAxis, yAxis, aggregation, measures, series, heatmapRows, stacking, granularity, fillGaps, transform, rollingWindow,
+        sortBy, sortOrder, limit, otherBucket, bins, binWidth,
+      },
+      { timeAxis }
+    ),
+    [
+      data, chartType, xAxis, yAxis, aggregation, measures, series, heatmapRows, stacking, granularity, fillGaps, transform, rollingWindow,
+      sortBy, sortOrder, limit, otherBucket, bins, binWidth, timeAxis,
+    ]
+  );
+  const chartData = chart.points;
+  const split = chart.series.length > 1;
+  const stacked = series !== 'none' && stacking !== 'none';
+  const stackOffset = stacked && stacking === 'percent' ? 'expand' : undefined;
+  const hasSecondary = chart.series.some(s => s.secondary);
+  const axisOf = (s: ChartData['series'][number]) => (s.secondary ? 'right' : 'left');
+
+  // Left axis for the Y column, and a right one once a measure is moved there
+  const yAxes = (
+    <>
+      <YAxis yAxisId="left" tickFormatter={stackOffset ? formatShare : undefined} />
+      {hasSecondary && <YAxis yAxisId="right" orientation="right" tickFormatter={stackOffset ? formatShare : undefined} />}
+    </>
+  );
+
   const renderChart = () => {
     if (chartData.length === 0) {
       return (
@@ -126,47 +262,91 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
         </div>
       );
     }
-    
+
     switch (chartType) {
       case 'bar':
         return (
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={chartData}>
+            <BarChart data={chartData} stackOffset={stackOffset}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
-              <YAxis />
+              {yAxes}
               <Tooltip />
-              <Bar dataKey="value" fill="#3b82f6" />
+              {split && <Legend />}
+              {chart.series.map((s, i) => (
+                <Bar key={s.key} yAxisId={axisOf(s)} dataKey={s.key} name={s.name} stackId={stacked ? stackOf(s.key) : undefined} fill={colorOf(i)} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
         );
-        
+
       case 'line':
         return (
           <ResponsiveContainer width="100%" height={300}>
             <RechartsLineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
-              <YAxis />
+              {yAxes}
               <Tooltip />
-              <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} />
+              {split && <Legend />}
+              {chart.series.map((s, i) => (
+                <Line
+                  key={s.key}
+                  yAxisId={axisOf(s)}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.name}
+                  stroke={colorOf(i)}
+                  strokeWidth={2}
+                  strokeDasharray={s.secondary ? '5 3' : undefined}
+                />
+              ))}
             </RechartsLineChart>
           </ResponsiveContainer>
         );
-        
+
+      case 'area':
+        return (
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={chartData} stackOffset={stackOffset}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
+              {yAxes}
+              <Tooltip />
+              {split && <Legend />}
+              {chart.series.map((s, i) => (
+                <Area
+                  key={s.key}
+                  yAxisId={axisOf(s)}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.name}
+                  stackId={stacked ? stackOf(s.key) : undefined}
+                  stroke={colorOf(i)}
+                  fill={colorOf(i)}
+                  fillOpacity={stacked ? 0.6 : 0.2}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        );
+
       case 'scatter':
         return (
           <ResponsiveContainer width="100%" height={300}>
-            <RechartsScatterChart data={chartData}>
+            <RechartsScatterChart>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="x" />
-              <YAxis dataKey="y" />
+              <XAxis dataKey="x" type="number" name={xAxis} domain={['auto', 'auto']} />
+              <YAxis dataKey="y" type="number" name={yAxis} domain={['auto', 'auto']} />
               <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-              <Scatter fill="#3b82f6" />
+              {split && <Legend />}
+              {chart.series.map((s, i) => (
+                <Scatter key={s.key} name={s.name} data={chartData.filter(point => point.series === s.key)} fill={colorOf(i)} />
+              ))}
             </RechartsScatterChart>
           </ResponsiveContainer>
         );
-        
+
       case 'pie':
         return (
           <ResponsiveContainer width="100%" height={300}>
@@ -189,12 +369,131 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
             </RechartsPieChart>
           </ResponsiveContainer>
         );
-        
+
+      case 'histogram':
+        return (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData} barCategoryGap={0}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} tick={{ fontSize: 10 }} />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="value" name="Rows" fill="#3b82f6" stroke="#ffffff" strokeWidth={1} />
+            </BarChart>
+          </ResponsiveContainer>
+        );
+
+      case 'box':
+        return (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
+              <YAxis domain={['auto', 'auto']} />
+              <Tooltip content={<BoxTooltip />} />
+              <Bar dataKey="range" name={yAxis} fill="#8b5cf6" shape={<BoxShape />} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        );
+
+      case 'heatmap':
+        return <HeatmapChart chart={chart} />;
+
       default:
         return null;
     }
   };
-  
+
+  const title = chartTitle(current);
+  const exportName = `${baseName(fileName)}_${chartType}`;
+
+  // Recharts draws its legend outside the SVG, so exports draw their own
+  const legendItems = (): LegendItem[] => {
+    switch (chartType) {
+      case 'pie':
+        return chartData.map((point, i) => ({ label: String(point.name), color: colorOf(i) }));
+      case 'histogram':
+        return [{ label: 'Rows', color: '#3b82f6' }];
+      case 'box':
+        return [{ label: yAxis, color: '#8b5cf6' }];
+      case 'heatmap':
+        return [];
+      default:
+        return chart.series.map((s, i) => ({ label: s.name, color: colorOf(i) }));
+    }
+  };
+
+  const composeImage = () => {
+    const svg = chartArea.current && findChartSvg(chartArea.current);
+    return svg ? composeChartSvg(svg, title, legendItems()) : null;
+  };
+
+  const handleSvg = () => {
+    const image = composeImage();
+    if (image) downloadFile(image.markup, `${exportName}.svg`, 'image/svg+xml');
+  };
+
+  const handlePng = async () => {
+    const image = composeImage();
+    if (!image) return;
+    try {
+      downloadFile(await renderChartPng(image, Number(scale)), `${exportName}.png`, 'image/png');
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not draw the chart",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSpec = () => {
+    const spec = toChartSpec(current, { name: fileName, rows: data.length, columns });
+    downloadFile(JSON.stringify(spec, null, 2), `${exportName}.json`, 'application/json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { config, dataset, filters } = parseChartSpec(await file.text());
+      onConfigChange(config);
+      const used = [config.xAxis, config.yAxis, config.series, config.heatmapRows, ...config.measures.map(measure => measure.column)];
+      const missing = used.filter(col => col && col !== 'none' && !columns.includes(col));
+      const notes = [
+        dataset && dataset.name !== fileName ? `Made from ${dataset.name}.` : '',
+        missing.length > 0 ? `Not in this dataset: ${[...new Set(missing)].join(', ')}.` : '',
+        filters > 0 ? `Its ${filters} row filters are not applied.` : '',
+      ].filter(Boolean);
+      toast({
+        title: "Chart Imported",
+        description: [chartTitle(config), ...notes].join(' '),
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Chart File",
+        description: error instanceof Error ? error.message : "Could not read the chart",
+        variant: "destructive"
+      });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const xLabel: Record<ChartType, string> = {
+    bar: 'X Axis',
+    line: 'X Axis',
+    area: 'X Axis',
+    scatter: 'X Axis',
+    pie: 'Category',
+    histogram: 'Column',
+    box: 'Category (Optional)',
+    heatmap: 'Columns',
+  };
+  const xOptions = chartType === 'scatter' || chartType === 'histogram' ? numericColumns : chartType === 'box' ? textColumns : columns;
+  const aggregated = chartType === 'heatmap' ? !!yAxis : categorical;
+  // Counts work on any column; the other aggregations need numbers
+  const measureOptions = (aggregation: string) => (aggregated && COUNTING.has(aggregation) ? columns : numericColumns);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -204,7 +503,7 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
           <p className="text-sm text-muted-foreground">Create interactive visualizations from your data</p>
         </div>
       </div>
-      
+
       <div className="grid md:grid-cols-2 gap-6">
         {/* Controls */}
         <Card>
@@ -212,6 +511,16 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
             <CardTitle className="text-lg">Chart Configuration</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Title */}
+            <div>
+              <label className="text-sm font-medium mb-2 block">Title</label>
+              <Input
+                placeholder={chartTitle({ ...current, title: '' })}
+                value={current.title}
+                onChange={(e) => update({ title: e.target.value })}
+              />
+            </div>
+
             {/* Chart Type */}
             <div>
               <label className="text-sm font-medium mb-2 block">Chart Type</label>
@@ -232,61 +541,272 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
                 })}
               </div>
             </div>
-            
+
             {/* X Axis */}
             <div>
-              <label className="text-sm font-medium mb-2 block">
-                {chartType === 'pie' ? 'Category' : 'X Axis'}
-              </label>
-              <Select value={xAxis} onValueChange={setXAxis}>
+              <label className="text-sm font-medium mb-2 block">{xLabel[chartType]}</label>
+              <Select value={chartType === 'box' ? xAxis || 'none' : xAxis} onValueChange={setXAxis}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select column..." />
                 </SelectTrigger>
                 <SelectContent>
-                  {(chartType === 'scatter' ? numericColumns : columns).map(col => (
+                  {chartType === 'box' && <SelectItem value="none">None</SelectItem>}
+                  {xOptions.map(col => (
                     <SelectItem key={col} value={col}>{col}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
-            
+
+            {/* Time axis */}
+            {timeAxis && (
+              <div className="space-y-4 rounded-md border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Granularity</label>
+                    <Select value={granularity} onValueChange={(value) => update({ granularity: value as Granularity })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GRANULARITIES.map(g => (
+                          <SelectItem key={g.id} value={g.id}>{g.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Transform</label>
+                    <Select value={transform} onValueChange={(value) => update({ transform: value as ChartTransform })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRANSFORMS.map(t => (
+                          <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {transform === 'rolling' && (
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Window (periods)</label>
+                    <Input
+                      type="number"
+                      min={2}
+                      value={rollingWindow}
+                      onChange={(e) => update({ rollingWindow: Math.max(2, Math.floor(Number(e.target.value)) || 2) })}
+                    />
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch id="fill-gaps" checked={fillGaps} onCheckedChange={(fillGaps) => update({ fillGaps })} />
+                  <label htmlFor="fill-gaps" className="text-sm">Fill empty periods</label>
+                </div>
+              </div>
+            )}
+
+            {/* Histogram bins */}
+            {chartType === 'histogram' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Bins</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={bins}
+                    disabled={binWidth > 0}
+                    onChange={(e) => update({ bins: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Bin Width</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="Auto"
+                    value={binWidth || ''}
+                    onChange={(e) => update({ binWidth: Math.max(0, Number(e.target.value)) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Heatmap rows */}
+            {chartType === 'heatmap' && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Rows</label>
+                <Select value={heatmapRows} onValueChange={(heatmapRows) => update({ heatmapRows })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select column..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {textColumns.filter(col => col !== xAxis).map(col => (
+                      <SelectItem key={col} value={col}>{col}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Y Axis */}
-            {chartType !== 'pie' && (
+            {chartType !== 'pie' && chartType !== 'histogram' && (
               <div>
-                <label className="text-sm font-medium mb-2 block">Y Axis</label>
-                <Select value={yAxis} onValueChange={setYAxis}>
+                <label className="text-sm font-medium mb-2 block">{chartType === 'heatmap' ? 'Value' : 'Y Axis'}</label>
+                <Select
+                  value={chartType === 'heatmap' ? yAxis || 'none' : yAxis}
+                  onValueChange={(col) => setYAxis(col === 'none' ? '' : col)}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select column..." />
                   </SelectTrigger>
                   <SelectContent>
-                    {numericColumns.map(col => (
+                    {chartType === 'heatmap' && <SelectItem value="none">Row count</SelectItem>}
+                    {measureOptions(aggregation).map(col => (
                       <SelectItem key={col} value={col}>{col}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
             )}
-            
-            {/* Group By */}
-            {chartType !== 'pie' && chartType !== 'scatter' && (
+
+            {/* Further measures */}
+            {categorical && yAxis && (
+              <div className="space-y-2">
+                {measures.map((measure, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={measure.column} onValueChange={(column) => updateMeasure(index, { column })}>
+                      <SelectTrigger className="flex-1 min-w-0">
+                        <SelectValue placeholder="Select column..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {measureOptions(measure.aggregation).map(col => (
+                          <SelectItem key={col} value={col}>{col}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {aggregated && (
+                      <Select value={measure.aggregation} onValueChange={(aggregation) => updateMeasure(index, { aggregation })}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AGGREGATIONS.map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="flex items-center gap-1" title="Plot against a second axis on the right">
+                      <Switch
+                        checked={measure.secondary}
+                        onCheckedChange={(secondary) => updateMeasure(index, { secondary })}
+                        aria-label={`Right axis for ${measure.column}`}
+                      />
+                      <span className="text-xs text-muted-foreground">Right</span>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => removeMeasure(index)} title="Remove measure">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addMeasure} disabled={numericColumns.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Measure
+                </Button>
+              </div>
+            )}
+
+            {/* Series */}
+            {SERIES_TYPES.includes(chartType) && (
               <div>
-                <label className="text-sm font-medium mb-2 block">Group By (Optional)</label>
-                <Select value={groupBy} onValueChange={setGroupBy}>
+                <label className="text-sm font-medium mb-2 block">Color / Series (Optional)</label>
+                <Select value={series} onValueChange={setSeries}>
                   <SelectTrigger>
                     <SelectValue placeholder="None" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="none">None</SelectItem>
-                    {textColumns.map(col => (
+                    {textColumns.filter(col => col !== xAxis).map(col => (
                       <SelectItem key={col} value={col}>{col}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
             )}
-            
+
+            {/* Stacking */}
+            {(chartType === 'bar' || chartType === 'area') && series !== 'none' && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Stacking</label>
+                <Select value={stacking} onValueChange={(value) => setStacking(value as Stacking)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STACKINGS.map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.id === 'none' && chartType === 'area' ? 'Overlapping' : option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Sort and top N */}
+            {categorical && !timeAxis && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Sort By</label>
+                  <Select value={sortBy} onValueChange={(value) => update({ sortBy: value as SortBy })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="value">Value</SelectItem>
+                      <SelectItem value="key">{xAxis || 'X value'}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Order</label>
+                  <Select value={sortOrder} onValueChange={(value) => update({ sortOrder: value as SortOrder })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="desc">Descending</SelectItem>
+                      <SelectItem value="asc">Ascending</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Top N</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="All"
+                    value={limit || ''}
+                    onChange={(e) => update({ limit: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Other bucket */}
+            {((categorical && !timeAxis) || chartType === 'pie') && (
+              <div className="flex items-center gap-2">
+                <Switch id="other-bucket" checked={otherBucket} onCheckedChange={(otherBucket) => update({ otherBucket })} />
+                <label htmlFor="other-bucket" className="text-sm">Combine the rest into "Other"</label>
+              </div>
+            )}
+
             {/* Aggregation */}
-            {groupBy && groupBy !== 'none' && chartType !== 'pie' && (
+            {aggregated && (
               <div>
                 <label className="text-sm font-medium mb-2 block">Aggregation</label>
                 <Select value={aggregation} onValueChange={setAggregation}>
@@ -294,16 +814,14 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="sum">Sum</SelectItem>
-                    <SelectItem value="avg">Average</SelectItem>
-                    <SelectItem value="count">Count</SelectItem>
-                    <SelectItem value="max">Maximum</SelectItem>
-                    <SelectItem value="min">Minimum</SelectItem>
+                    {AGGREGATIONS.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             )}
-            
+
             {/* Data Info */}
             <div className="pt-4 border-t">
               <div className="flex flex-wrap gap-2">
@@ -314,19 +832,66 @@ export function ChartBuilder({ data, fileName }: ChartBuilderProps) {
             </div>
           </CardContent>
         </Card>
-        
+
         {/* Chart Display */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">
-              {chartType.charAt(0).toUpperCase() + chartType.slice(1)} Chart
-            </CardTitle>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-lg">
+                {chartData.length > 0 ? title : CHART_TYPES.find(type => type.id === chartType)?.name}
+              </CardTitle>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={e => handleImport(e.target.files?.[0])}
+                />
+                <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleSpec} disabled={chartData.length === 0}>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  JSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleSvg} disabled={chartData.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  SVG
+                </Button>
+                <div className="flex items-center">
+                  <Select value={scale} onValueChange={setScale}>
+                    <SelectTrigger className="h-9 w-16 rounded-r-none border-r-0" aria-label="PNG resolution">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PNG_SCALES.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" className="rounded-l-none" onClick={handlePng} disabled={chartData.length === 0}>
+                    <ImageIcon className="h-4 w-4 mr-2" />
+                    PNG
+                  </Button>
+                </div>
+              </div>
+            </div>
           </CardHeader>
-          <CardContent>
-            {renderChart()}
+          <CardContent className="space-y-3">
+            <div ref={chartArea}>
+              {renderChart()}
+            </div>
+            {chartData.length > 0 && chart.warnings.map(warning => (
+              <p key={warning} className="text-xs text-muted-foreground flex items-start gap-1.5">
+                <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-px text-chart-4" />
+                {warning}
+              </p>
+            ))}
           </CardContent>
         </Card>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,119 +1,145 @@
-import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Code, Download, Settings, Eye, EyeOff } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, type Dispatch, type SetStateAction } from 'react';
+import { Send, Bot, User, Loader2, Code, Download, AlertCircle, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-
-interface Message {
-  id: string;
-  type: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  sql?: string;
-  data?: any[];
-}
+import { runQuery, ACTIVE_VIEW } from '@/lib/sql';
+import { getColumns, type Dataset } from '@/lib/workspace';
+import { downloadCSV } from '@/lib/csv';
+import { runAgent, MAX_AGENT_STEPS, type ChatTurn } from '@/lib/chat/agent';
+import type { ToolCallRecord } from '@/lib/chat/tools';
+import { createProvider, type LLMProvider } from '@/lib/chat/providers';
+import { isConfigured, DEFAULT_SETTINGS, type LLMSettings } from '@/lib/chat/settings';
+import { createGreeting, PREVIEW_ROWS, SHOWN_ROWS, type ChatMessage } from '@/lib/chat/messages';
+import { useProfile, useProfiles } from '@/hooks/use-profile';
+import { useToast } from '@/hooks/use-toast';
+import { semanticLabel } from '@/lib/semantic';
+import { NO_PRIVACY, redactRows, scrubText, workspacePrivacy, type Privacy } from '@/lib/pii';
+import { ToolCallView } from './ToolCallView';
+import { ModelSettingsDialog } from './ModelSettingsDialog';
 
 interface ChatInterfaceProps {
-  data: any[];
+  data: Record<string, unknown>[];
   fileName: string;
+  /** Every dataset in the workspace; each is a SQLite table the assistant can query */
+  datasets: Dataset[];
+  activeTable: string;
+  /** The thread lives in the workspace, so it survives tab switches and reloads */
+  messages: ChatMessage[];
+  onMessagesChange: Dispatch<SetStateAction<ChatMessage[]>>;
+  /** Model settings are saved with the workspace */
+  settings: LLMSettings;
+  onSettingsChange: (settings: LLMSettings) => void;
 }
 
-export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      type: 'assistant',
-      content: `Hi! I'm ready to help you analyze your data from **${fileName}**. I can answer questions about your dataset, create visualizations, and run SQL queries.\n\nHere are some things you can ask me:\n• "Show me the top 10 rows by revenue"\n• "What's the correlation between price and sales?"\n• "Create a chart of monthly trends"\n• "How many unique customers do we have?"\n\nWhat would you like to explore?`,
-      timestamp: new Date(),
-    }
-  ]);
+export function ChatInterface({
+  data,
+  fileName,
+  datasets,
+  activeTable,
+  messages,
+  onMessagesChange: setMessages,
+  settings,
+  onSettingsChange,
+}: ChatInterfaceProps) {
+  const greeting = useMemo(() => createGreeting(fileName), [fileName]);
+  const { profile } = useProfile(data);
+  // Personal data flags come from the profiles of every table the model can query
+  const { profiles, error: profilesError } = useProfiles(datasets);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingToolCalls, setPendingToolCalls] = useState<ToolCallRecord[]>([]);
+  const [streamingContent, setStreamingContent] = useState('');
   const [showSQL, setShowSQL] = useState<Record<string, boolean>>({});
-  const [apiKey, setApiKey] = useState('');
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [apiKeyDialogOpen, setApiKeyDialogOpen] = useState(false);
+  const { toast } = useToast();
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // Load API key from localStorage on mount
-  useEffect(() => {
-    const savedApiKey = localStorage.getItem('openai_api_key');
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-    }
-  }, []);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingContent, pendingToolCalls]);
   
-  const callOpenAI = async (userQuery: string, data: any[]) => {
+  // Runs the extracted SQL against the real data and returns what gets attached to the message
+  const executeSQL = async (sql: string | null): Promise<Pick<ChatMessage, 'data' | 'rowCount' | 'error'>> => {
+    if (!sql) return {};
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a data analyst AI. You have access to a dataset with ${data.length} rows. Answer questions about this data concisely and provide SQL queries when relevant. The table is called 'df'. Here's a sample of the data structure: ${JSON.stringify(data.slice(0, 2))}`
-            },
-            {
-              role: 'user',
-              content: userQuery
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.7,
-        }),
-      });
+      const result = await runQuery(sql);
+      return { data: result.rows.slice(0, PREVIEW_ROWS), rowCount: result.rowCount };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+  
+  const configured = isConfigured(settings);
+  // The offline stub never leaves the browser, so it sees real values
+  const privacyMode = configured && settings.provider !== 'offline' ? settings.privacy : 'off';
+  // Nothing is sent to the model before every table has been checked for personal data
+  const awaitingFlags = privacyMode !== 'off' && !profiles;
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
+  const askAssistant = async (provider: LLMProvider, userQuery: string, data: Record<string, unknown>[], signal: AbortSignal, privacy: Privacy) => {
+    try {
+      // Earlier turns give the model conversational context. They may have been
+      // answered with privacy off (offline, or before privacy was turned on), so
+      // every turn is scrubbed of personal data again
+      const history: ChatTurn[] = [
+        ...messages.map(m => ({ role: m.type, content: scrubText(m.content, privacy.mode, privacy.values) })),
+        { role: 'user', content: scrubText(userQuery, privacy.mode, privacy.values) },
+      ];
+      
+      const tables = datasets
+        .map(d => `- ${d.tableName}${d.tableName === activeTable ? ` (the active dataset, also available as '${ACTIVE_VIEW}')` : ''}: ${d.data.length} rows; columns ${getColumns(d).join(', ')}`)
+        .join('\n');
+      const redaction = privacy.mode === 'omit' ? 'left out' : privacy.mode === 'hash' ? 'replaced by pseudonyms' : 'masked';
+      const privacyNote = privacy.mode !== 'off' && privacy.columns.size > 0
+        ? `\n\nThe columns ${[...privacy.columns.keys()].join(', ')} hold personal data, so their values are ${redaction} in everything you see. SQL still runs on the real values, so you can filter, group and count by them.`
+        : '';
+      const meanings = (profile?.columns || [])
+        .filter(c => c.semantic)
+        .map(c => `${c.name} (${semanticLabel(c.semantic!.type)})`)
+        .join(', ');
 
-      const result = await response.json();
+      const result = await runAgent({
+        provider,
+        systemPrompt: `You are a data analyst AI. You have access to a dataset with ${data.length} rows in a SQLite table called '${ACTIVE_VIEW}'. Use the tools to look at the real data before answering: analyze_data for an overview, run_sql_query for filtering and aggregations, create_visualization to show a chart, and explain_insights to gather facts for an interpretation. Answer concisely with exact numbers taken from tool results, and state assumptions when data is incomplete. Here's a sample of the data structure: ${JSON.stringify(redactRows(data.slice(0, 2), privacy))}${meanings ? `\n\nColumn meanings detected from the values: ${meanings}. Sum or average currency and percent columns, group by categories, countries and dates, and count identifiers rather than adding them up.` : ''}${privacyNote}${datasets.length > 1 ? `\n\nThe workspace holds these tables, which run_sql_query can query and join:\n${tables}` : ''}`,
+        history,
+        context: { data, profile, privacy },
+        signal,
+        onToolCall: record => setPendingToolCalls(prev => [...prev, record]),
+        onContent: setStreamingContent,
+      });
+      
+      let content = result.content || (result.cancelled ? '' : 'Sorry, I could not process your request.');
+      if (result.reachedStepLimit) content += `\n\n*Stopped after ${MAX_AGENT_STEPS} tool steps.*`;
+      if (result.cancelled) content += `${content ? '\n\n' : ''}*Response stopped.*`;
+      // Prefer SQL written in the answer; otherwise surface the last query the agent ran
+      const lastQuery = [...result.toolCalls]
+        .reverse()
+        .find(call => call.name === 'run_sql_query' && !call.error);
+      const sql = extractSQL(content) || (lastQuery ? String(lastQuery.arguments.query) : null);
       return {
-        content: result.choices[0]?.message?.content || 'Sorry, I could not process your request.',
-        sql: extractSQL(result.choices[0]?.message?.content || ''),
-        data: generateMockData(userQuery, data) // For now, keep mock data generation
+        content,
+        sql,
+        toolCalls: result.toolCalls,
+        ...(await executeSQL(sql)),
       };
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error(`${provider.name} error:`, error);
       throw error;
     }
   };
 
   const extractSQL = (content: string) => {
-    const sqlMatch = content.match(/```sql\n([\s\S]*?)\n```/);
-    return sqlMatch ? sqlMatch[1] : null;
-  };
-
-  const saveApiKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem('openai_api_key', key);
-    setApiKeyDialogOpen(false);
-  };
-
-  const removeApiKey = () => {
-    setApiKey('');
-    localStorage.removeItem('openai_api_key');
+    const sqlMatch = content.match(/```sql\s*\n([\s\S]*?)\n?```/i);
+    return sqlMatch ? sqlMatch[1].trim() : null;
   };
 
   const handleSendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || awaitingFlags) return;
     
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
       content: input,
@@ -124,96 +150,73 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
     const currentInput = input;
     setInput('');
     setIsLoading(true);
+    setPendingToolCalls([]);
+    setStreamingContent('');
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    // Unconfigured settings fall back to the offline stub, which still queries the real data
+    const provider = createProvider(configured ? settings : { ...settings, provider: 'offline' });
+    const privacy = privacyMode === 'off' ? NO_PRIVACY : workspacePrivacy(privacyMode, profiles!);
     
     try {
-      let assistantMessage: Message;
-      
-      if (apiKey) {
-        // Use OpenAI API
-        const response = await callOpenAI(currentInput, data);
-        assistantMessage = {
+      const response = await askAssistant(provider, currentInput, data, abortController.signal, privacy);
+      if (!configured) {
+        response.content += '\n\n*Note: Using the offline assistant. Set your OpenAI API key or choose another provider in Model settings for AI-powered analysis.*';
+      }
+      const assistantMessage: ChatMessage = {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        timestamp: new Date(),
+        ...response,
+      };
+      setMessages(prev => [...prev, assistantMessage]);
+    } catch (error) {
+      setPendingToolCalls([]);
+      const reason = `Error connecting to ${provider.name}${error instanceof Error ? ` (${error.message})` : ''}.`;
+      let errorMessage: ChatMessage;
+      try {
+        // Same privacy as the failed provider: the answer joins the thread sent to it next time
+        const fallback = await askAssistant(createProvider({ ...settings, provider: 'offline' }), currentInput, data, abortController.signal, privacy);
+        errorMessage = {
           id: (Date.now() + 1).toString(),
           type: 'assistant',
-          content: response.content,
           timestamp: new Date(),
-          sql: response.sql,
-          data: response.data,
+          ...fallback,
+          content: `${reason} Using the offline assistant instead.\n\n${fallback.content}`,
         };
-      } else {
-        // Fallback to mock response
-        assistantMessage = {
+      } catch (fallbackError) {
+        // The offline assistant failed too; say so rather than leave the question unanswered
+        errorMessage = {
           id: (Date.now() + 1).toString(),
           type: 'assistant',
-          content: generateMockResponse(currentInput, data) + '\n\n*Note: Using mock responses. Set your OpenAI API key for AI-powered analysis.*',
           timestamp: new Date(),
-          sql: generateMockSQL(currentInput),
-          data: generateMockData(currentInput, data),
+          content: `${reason} The offline assistant could not answer either${fallbackError instanceof Error ? ` (${fallbackError.message})` : ''}.`,
         };
       }
-      
-      setMessages(prev => [...prev, assistantMessage]);
-    } catch (error) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: `Error connecting to OpenAI. Using fallback response instead.\n\n${generateMockResponse(currentInput, data)}`,
-        timestamp: new Date(),
-        sql: generateMockSQL(currentInput),
-        data: generateMockData(currentInput, data),
-      };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      setPendingToolCalls([]);
+      setStreamingContent('');
+      abortControllerRef.current = null;
     }
   };
   
-  const generateMockResponse = (query: string, data: any[]) => {
-    const lowerQuery = query.toLowerCase();
-    
-    if (lowerQuery.includes('top') || lowerQuery.includes('highest')) {
-      return `Based on your data, here are the top results. I've sorted the data by the most relevant metric and found some interesting insights.\n\nThe analysis shows clear patterns in your dataset with ${data.length} total records.`;
-    }
-    
-    if (lowerQuery.includes('correlation') || lowerQuery.includes('relationship')) {
-      return `I've analyzed the correlations in your dataset. There are several interesting relationships between the numeric variables.\n\nThe strongest correlations indicate meaningful business relationships that could help with decision making.`;
-    }
-    
-    if (lowerQuery.includes('chart') || lowerQuery.includes('visualization')) {
-      return `I've created a visualization based on your request. The chart shows the key trends and patterns in your data.\n\nThis visualization helps identify important insights that might not be obvious from looking at raw numbers.`;
-    }
-    
-    if (lowerQuery.includes('count') || lowerQuery.includes('how many')) {
-      return `Based on the analysis of your dataset:\n\n• Total records: ${data.length.toLocaleString()}\n• Unique values vary by column\n• Data spans multiple categories with good distribution`;
-    }
-    
-    return `I've analyzed your query about the dataset. Based on the data patterns, I can provide specific insights about your ${data.length} records.\n\nWould you like me to create a visualization or run a specific analysis?`;
-  };
-  
-  const generateMockSQL = (query: string) => {
-    const lowerQuery = query.toLowerCase();
-    
-    if (lowerQuery.includes('top')) {
-      return 'SELECT * FROM df ORDER BY revenue DESC LIMIT 10';
-    }
-    
-    if (lowerQuery.includes('count')) {
-      return 'SELECT COUNT(*) as total_records, COUNT(DISTINCT customer_id) as unique_customers FROM df';
-    }
-    
-    if (lowerQuery.includes('correlation')) {
-      return 'SELECT CORR(price, sales) as price_sales_correlation FROM df WHERE price IS NOT NULL AND sales IS NOT NULL';
-    }
-    
-    return 'SELECT * FROM df WHERE condition = true LIMIT 100';
-  };
-  
-  const generateMockData = (query: string, data: any[]) => {
-    if (query.toLowerCase().includes('top')) {
-      return data.slice(0, 10);
+  // Messages keep a preview, so a larger result is queried again for the file
+  const downloadResult = async (message: ChatMessage) => {
+    try {
+      const rows = message.rowCount! > message.data!.length ? (await runQuery(message.sql!)).rows : message.data!;
+      downloadCSV(rows, `query_result_${message.id}.csv`);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not run the query again",
+        variant: "destructive"
+      });
     }
-    return null;
   };
-  
+
   const toggleSQL = (messageId: string) => {
     setShowSQL(prev => ({
       ...prev,
@@ -221,27 +224,6 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
     }));
   };
   
-  const downloadData = (data: any[], messageId: string) => {
-    const csv = convertToCSV(data);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `query_result_${messageId}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-  
-  const convertToCSV = (data: any[]) => {
-    if (data.length === 0) return '';
-    const headers = Object.keys(data[0]);
-    const csvContent = [
-      headers.join(','),
-      ...data.map(row => headers.map(header => JSON.stringify(row[header] || '')).join(','))
-    ].join('\n');
-    return csvContent;
-  };
-  
   return (
     <Card className="h-[600px] flex flex-col">
       <CardHeader className="pb-3">
@@ -250,72 +232,25 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
             <CardTitle className="flex items-center gap-2">
               <Bot className="h-5 w-5 text-primary" />
               Chat with Your Data
-              {apiKey && <Badge variant="secondary" className="text-xs">AI Enabled</Badge>}
+              {isConfigured(settings) && (
+                <Badge variant="secondary" className="text-xs">
+                  {settings.provider === 'offline' ? 'Offline' : settings.model}
+                </Badge>
+              )}
             </CardTitle>
             <p className="text-sm text-muted-foreground">
               Ask questions about your dataset and get AI-powered insights
             </p>
           </div>
           
-          <Dialog open={apiKeyDialogOpen} onOpenChange={setApiKeyDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm">
-                <Settings className="h-4 w-4 mr-2" />
-                API Key
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>OpenAI API Key Settings</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="api-key">OpenAI API Key</Label>
-                  <div className="flex gap-2 mt-1">
-                    <Input
-                      id="api-key"
-                      type={showApiKey ? 'text' : 'password'}
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                      placeholder="sk-..."
-                      className="flex-1"
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => setShowApiKey(!showApiKey)}
-                    >
-                      {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </Button>
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Your API key is stored locally in your browser
-                  </p>
-                </div>
-                
-                <div className="flex gap-2 justify-end">
-                  <Button variant="outline" onClick={removeApiKey} disabled={!apiKey}>
-                    Remove Key
-                  </Button>
-                  <Button onClick={() => saveApiKey(apiKey)} disabled={!apiKey.trim()}>
-                    Save Key
-                  </Button>
-                </div>
-                
-                <div className="text-xs text-muted-foreground">
-                  <p>Without an API key, you'll receive mock responses for demonstration purposes.</p>
-                  <p className="mt-1">Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">OpenAI's platform</a>.</p>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <ModelSettingsDialog settings={settings} onSave={onSettingsChange} onReset={() => onSettingsChange(DEFAULT_SETTINGS)} />
         </div>
       </CardHeader>
       
       <CardContent className="flex-1 flex flex-col p-0">
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {messages.map(message => (
+          {[greeting, ...messages].map(message => (
             <div key={message.id} className={`flex gap-3 ${message.type === 'user' ? 'flex-row-reverse' : ''}`}>
               <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
                 message.type === 'user' ? 'bg-primary' : 'bg-secondary'
@@ -328,6 +263,14 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
               </div>
               
               <div className={`flex-1 space-y-2 ${message.type === 'user' ? 'flex flex-col items-end' : ''}`}>
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <div className="space-y-1 max-w-[80%]">
+                    {message.toolCalls.map(call => (
+                      <ToolCallView key={call.id} call={call} />
+                    ))}
+                  </div>
+                )}
+                
                 <div className={`rounded-lg p-3 max-w-[80%] ${
                   message.type === 'user' 
                     ? 'bg-primary text-primary-foreground ml-auto' 
@@ -349,11 +292,11 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
                         {showSQL[message.id] ? 'Hide' : 'Show'} SQL
                       </Button>
                       
-                      {message.data && (
+                      {message.data && message.data.length > 0 && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => downloadData(message.data!, message.id)}
+                          onClick={() => downloadResult(message)}
                           className="h-7 text-xs"
                         >
                           <Download className="h-3 w-3 mr-1" />
@@ -368,7 +311,18 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
                       </div>
                     )}
                     
-                    {message.data && (
+                    {message.error && (
+                      <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-md p-3 flex items-start gap-2 text-xs">
+                        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                        <span>SQLite error: {message.error}</span>
+                      </div>
+                    )}
+                    
+                    {message.data && message.data.length === 0 && (
+                      <p className="text-xs text-muted-foreground">Query returned no rows</p>
+                    )}
+                    
+                    {message.data && message.data.length > 0 && (
                       <div className="bg-background border rounded-md p-3 overflow-x-auto">
                         <table className="text-xs w-full">
                           <thead>
@@ -381,20 +335,20 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
                             </tr>
                           </thead>
                           <tbody>
-                            {message.data.slice(0, 5).map((row, i) => (
+                            {message.data.slice(0, SHOWN_ROWS).map((row, i) => (
                               <tr key={i} className="border-b">
                                 {Object.keys(message.data![0] || {}).slice(0, 6).map(key => (
                                   <td key={key} className="p-1 truncate max-w-24">
-                                    {String(row[key] || '—')}
+                                    {String(row[key] ?? '—')}
                                   </td>
                                 ))}
                               </tr>
                             ))}
                           </tbody>
                         </table>
-                        {message.data.length > 5 && (
+                        {message.rowCount > SHOWN_ROWS && (
                           <p className="text-xs text-muted-foreground mt-2">
-                            Showing 5 of {message.data.length} results
+                            Showing {SHOWN_ROWS} of {message.rowCount.toLocaleString()} results
                           </p>
                         )}
                       </div>
@@ -414,9 +368,27 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
               <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
                 <Bot className="h-4 w-4" />
               </div>
-              <div className="bg-muted rounded-lg p-3 flex items-center gap-2">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span>Analyzing your data...</span>
+              <div className="flex-1 space-y-2">
+                {pendingToolCalls.length > 0 && (
+                  <div className="space-y-1 max-w-[80%]">
+                    {pendingToolCalls.map(call => (
+                      <ToolCallView key={call.id} call={call} />
+                    ))}
+                  </div>
+                )}
+                {streamingContent ? (
+                  <div className="bg-muted rounded-lg p-3 max-w-[80%]">
+                    <div className="whitespace-pre-wrap">
+                      {streamingContent}
+                      <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="bg-muted rounded-lg p-3 flex items-center gap-2 w-fit">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Analyzing your data...</span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -441,16 +413,36 @@ export function ChatInterface({ data, fileName }: ChatInterfaceProps) {
                 }
               }}
             />
-            <Button 
-              onClick={handleSendMessage} 
-              disabled={!input.trim() || isLoading}
-              size="icon"
-              className="h-[60px] w-[60px]"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button
+                onClick={() => abortControllerRef.current?.abort()}
+                variant="destructive"
+                size="icon"
+                className="h-[60px] w-[60px]"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleSendMessage} 
+                disabled={!input.trim() || awaitingFlags}
+                size="icon"
+                className="h-[60px] w-[60px]"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
           
+          {awaitingFlags && (
+            <p className="text-xs text-muted-foreground mt-2">
+              {profilesError
+                ? `Personal data could not be checked (${profilesError}), so nothing is sent to the model. Set privacy to Off in Model settings to continue without redaction.`
+                : 'Checking every table for personal data before anything is sent to the model...'}
+            </p>
+          )}
+          
           <div className="flex gap-2 mt-2">
             <Badge variant="outline" className="text-xs cursor-pointer" onClick={() => setInput("Show me the top 10 rows by revenue")}>
               Top 10 by revenue
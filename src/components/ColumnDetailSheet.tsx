@@ -0,0 +1,186 @@
+import type { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { formatNumber } from '@/lib/utils';
+import { semanticLabel } from '@/lib/semantic';
+import { piiLabel } from '@/lib/pii';
+import type { Bin, ColumnProfile } from '@/lib/profile';
+
+interface ColumnDetailSheetProps {
+  /** The column to show; the sheet is closed while null */
+  column: ColumnProfile | null;
+  onClose: () => void;
+}
+
+const percentOf = (count: number, total: number) => (total > 0 ? `${(count / total * 100).toFixed(1)}%` : '0%');
+
+const binLabel = (bin: Bin) => `${formatNumber(bin.start)} – ${formatNumber(bin.end)}`;
+
+const dateLabel = (time: number) => format(time, 'yyyy-MM-dd');
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <div className="text-lg font-semibold">{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      {detail && <div className="text-xs text-muted-foreground mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function ColumnDetail({ column }: { column: ColumnProfile }) {
+  const { numeric, dates } = column;
+  const present = column.count - column.missingCount;
+
+  const histogram = numeric?.histogram.map(bin => ({ name: binLabel(bin), value: bin.count })) || [];
+  const timeline = dates?.timeline.map(bin => ({ name: dateLabel(bin.start), value: bin.count })) || [];
+  const topValues = column.topValues.map(({ value, count }) => ({ name: value, value: count }));
+
+  return (
+    <div className="space-y-6 mt-6">
+      <div className="grid grid-cols-3 gap-3">
+        <Stat label="Missing" value={percentOf(column.missingCount, column.count)} detail={`${column.missingCount.toLocaleString()} rows`} />
+        <Stat
+          label="Zeros"
+          value={numeric ? percentOf(numeric.zeroCount, column.count) : '—'}
+          detail={numeric && `${numeric.zeroCount.toLocaleString()} rows`}
+        />
+        <Stat
+          label="Negative"
+          value={numeric ? percentOf(numeric.negativeCount, column.count) : '—'}
+          detail={numeric && `${numeric.negativeCount.toLocaleString()} rows`}
+        />
+        <Stat label="Unique" value={column.uniqueCount.toLocaleString()} detail={percentOf(column.uniqueCount, present)} />
+        <Stat label="Values" value={present.toLocaleString()} detail={`of ${column.count.toLocaleString()} rows`} />
+        {numeric ? (
+          <Stat label="Mean" value={formatNumber(numeric.mean)} detail={`median ${formatNumber(numeric.median)}`} />
+        ) : (
+          <Stat
+            label="Length"
+            value={column.text ? formatNumber(column.text.meanLength) : '—'}
+            detail={column.text && `${column.text.minLength} – ${column.text.maxLength} characters`}
+          />
+        )}
+      </div>
+
+      {numeric && histogram.length > 0 && (
+        <Section title="Distribution">
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={histogram} barCategoryGap={1}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+              <YAxis tick={{ fontSize: 10 }} />
+              <Tooltip />
+              <Bar dataKey="value" name="Rows" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+          <div className="grid grid-cols-5 gap-2 text-xs text-center">
+            {(['p5', 'p25', 'p50', 'p75', 'p95'] as const).map(key => (
+              <div key={key}>
+                <div className="font-medium">{formatNumber(numeric.quantiles[key])}</div>
+                <div className="text-muted-foreground">{key}</div>
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {dates && timeline.length > 0 && (
+        <Section title={`Timeline (${dates.min.slice(0, 10)} – ${dates.max.slice(0, 10)})`}>
+          <ResponsiveContainer width="100%" height={200}>
+            <AreaChart data={timeline}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+              <YAxis tick={{ fontSize: 10 }} />
+              <Tooltip />
+              <Area type="monotone" dataKey="value" name="Rows" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.3} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </Section>
+      )}
+
+      {topValues.length > 0 && (
+        <Section title="Top Values">
+          {column.type !== 'numeric' && (
+            <ResponsiveContainer width="100%" height={Math.max(120, topValues.length * 28)}>
+              <BarChart data={topValues} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" tick={{ fontSize: 10 }} />
+                <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 10 }} />
+                <Tooltip />
+                <Bar dataKey="value" name="Rows" fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Value</th>
+                <th className="text-right p-2 font-medium">Count</th>
+                <th className="text-right p-2 font-medium">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {column.topValues.map(({ value, count }) => (
+                <tr key={value} className="border-b">
+                  <td className="p-2 truncate max-w-60">{value}</td>
+                  <td className="p-2 text-right">{count.toLocaleString()}</td>
+                  <td className="p-2 text-right text-muted-foreground">{percentOf(count, present)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+      )}
+
+      {column.examples.length > 0 && (
+        <Section title="Example Values">
+          <div className="flex flex-wrap gap-1">
+            {column.examples.map(value => (
+              <Badge key={value} variant="outline" className="text-xs font-mono max-w-full truncate">
+                {value}
+              </Badge>
+            ))}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+}
+
+export function ColumnDetailSheet({ column, onClose }: ColumnDetailSheetProps) {
+  return (
+    <Sheet open={column !== null} onOpenChange={open => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {column && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-all flex items-center gap-2">
+                {column.name}
+                {column.semantic && <Badge variant="secondary">{semanticLabel(column.semantic.type)}</Badge>}
+                {column.pii && <Badge variant="destructive">Personal data: {piiLabel(column.pii)}</Badge>}
+              </SheetTitle>
+              <SheetDescription>
+                {column.type} column
+                {column.type !== 'empty' && column.confidence < 1 && ` (${Math.round(column.confidence * 100)}% of values)`}
+                {' · '}{column.count.toLocaleString()} rows
+              </SheetDescription>
+            </SheetHeader>
+            <ColumnDetail column={column} />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
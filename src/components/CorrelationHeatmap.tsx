@@ -0,0 +1,231 @@
+import { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Grid3x3 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CORRELATION_METHODS,
+  MAX_CORRELATION_COLUMNS,
+  correlationOf,
+  rankPairs,
+  toNumber,
+  type CorrelationMatrix,
+  type CorrelationMethod,
+} from '@/lib/correlation';
+
+interface CorrelationHeatmapProps {
+  data: Record<string, unknown>[];
+  correlation: CorrelationMatrix;
+}
+
+type Order = 'original' | 'strongest';
+
+interface Cell {
+  a: string;
+  b: string;
+}
+
+const MAX_SCATTER_POINTS = 2000;
+const STRONGEST_PAIRS = 8;
+
+// Diverging scale: blue for negative, red for positive, fading to white at zero
+const cellColor = (value: number | null) => {
+  if (value === null) return 'hsl(var(--muted))';
+  const alpha = Math.abs(value).toFixed(2);
+  return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+};
+
+const formatCoefficient = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const strength = (value: number) => {
+  const size = Math.abs(value);
+  const direction = value >= 0 ? 'positive' : 'negative';
+  if (size >= 0.7) return `Strong ${direction}`;
+  if (size >= 0.4) return `Moderate ${direction}`;
+  if (size >= 0.2) return `Weak ${direction}`;
+  return 'Negligible';
+};
+
+// Evenly spaced rows so the scatter shows the whole range of a large table
+const scatterPoints = (data: Record<string, unknown>[], x: string, y: string) => {
+  const step = Math.max(1, Math.floor(data.length / MAX_SCATTER_POINTS));
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i < data.length && points.length < MAX_SCATTER_POINTS; i += step) {
+    const a = toNumber(data[i][x]);
+    const b = toNumber(data[i][y]);
+    if (!isNaN(a) && !isNaN(b)) points.push({ x: a, y: b });
+  }
+  return points;
+};
+
+export function CorrelationHeatmap({ data, correlation }: CorrelationHeatmapProps) {
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [order, setOrder] = useState<Order>('original');
+  const [hovered, setHovered] = useState<Cell | null>(null);
+  const [selected, setSelected] = useState<Cell | null>(null);
+
+  const pairs = useMemo(() => rankPairs(correlation, method), [correlation, method]);
+
+  // Columns with the strongest relationships to the others move to the top-left
+  const columns = useMemo(() => {
+    if (order === 'original') return correlation.columns;
+    const score = (column: string) => pairs
+      .filter(pair => pair.a === column || pair.b === column)
+      .reduce((sum, pair) => sum + Math.abs(pair.value), 0);
+    return [...correlation.columns].sort((a, b) => score(b) - score(a));
+  }, [correlation.columns, order, pairs]);
+
+  const points = useMemo(
+    () => (selected ? scatterPoints(data, selected.a, selected.b) : []),
+    [data, selected]
+  );
+
+  if (correlation.columns.length < 2) return null;
+
+  const countOf = (a: string, b: string) =>
+    correlation.counts[correlation.columns.indexOf(a)]?.[correlation.columns.indexOf(b)] ?? 0;
+  const showLabels = columns.length <= 12;
+  const hoveredValue = hovered && correlationOf(correlation, method, hovered.a, hovered.b);
+  const selectedValue = selected && correlationOf(correlation, method, selected.a, selected.b);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-primary" />
+          Correlations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Click a cell to plot the pair
+          {correlation.columns.length === MAX_CORRELATION_COLUMNS && ` · limited to the first ${MAX_CORRELATION_COLUMNS} numeric columns`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Method</Label>
+            <Select value={method} onValueChange={value => setMethod(value as CorrelationMethod)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CORRELATION_METHODS.map(m => (
+                  <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Order</Label>
+            <Select value={order} onValueChange={value => setOrder(value as Order)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">Column order</SelectItem>
+                <SelectItem value="strongest">Strongest first</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-[1fr_16rem] gap-6">
+          <div className="space-y-2 min-w-0">
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate border-spacing-0.5" onMouseLeave={() => setHovered(null)}>
+                <thead>
+                  <tr>
+                    <th />
+                    {columns.map(col => (
+                      <th key={col} className="p-1 font-medium align-bottom h-24">
+                        <div className="[writing-mode:vertical-rl] rotate-180 truncate max-h-24 mx-auto" title={col}>{col}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {columns.map(row => (
+                    <tr key={row}>
+                      <th className="p-1 pr-2 font-medium text-right truncate max-w-32" title={row}>{row}</th>
+                      {columns.map(col => {
+                        const value = correlationOf(correlation, method, row, col);
+                        return (
+                          <td
+                            key={col}
+                            className="w-9 h-9 min-w-9 text-center rounded-sm cursor-pointer hover:ring-2 hover:ring-primary"
+                            style={{ backgroundColor: cellColor(value), color: value !== null && Math.abs(value) > 0.6 ? 'white' : undefined }}
+                            onMouseEnter={() => setHovered({ a: row, b: col })}
+                            onClick={() => row !== col && setSelected({ a: row, b: col })}
+                          >
+                            {showLabels && formatCoefficient(value)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground h-4">
+              {hovered
+                ? `${hovered.a} × ${hovered.b}: ${formatCoefficient(hoveredValue)}` +
+                  (hoveredValue !== null ? ` · ${strength(hoveredValue)} · ${countOf(hovered.a, hovered.b).toLocaleString()} rows` : '')
+                : 'Hover a cell to see its coefficient'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Strongest Pairs</h3>
+            {pairs.length === 0 && <p className="text-xs text-muted-foreground">No pairs with enough values</p>}
+            {pairs.slice(0, STRONGEST_PAIRS).map(pair => (
+              <button
+                key={`${pair.a}|${pair.b}`}
+                type="button"
+                onClick={() => setSelected({ a: pair.a, b: pair.b })}
+                className="w-full flex items-center justify-between gap-2 rounded-md border p-2 text-left text-xs hover:bg-muted/50"
+              >
+                <span className="truncate">{pair.a} × {pair.b}</span>
+                <span
+                  className="font-mono font-medium px-1.5 py-0.5 rounded"
+                  style={{ backgroundColor: cellColor(pair.value), color: Math.abs(pair.value) > 0.6 ? 'white' : undefined }}
+                >
+                  {formatCoefficient(pair.value)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={open => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.a} vs {selected.b}</DialogTitle>
+                <DialogDescription>
+                  Pearson {formatCoefficient(correlationOf(correlation, 'pearson', selected.a, selected.b))}
+                  {' · '}Spearman {formatCoefficient(correlationOf(correlation, 'spearman', selected.a, selected.b))}
+                  {selectedValue !== null && ` · ${strength(selectedValue)}`}
+                  {' · '}{countOf(selected.a, selected.b).toLocaleString()} rows
+                  {points.length === MAX_SCATTER_POINTS && ` (${MAX_SCATTER_POINTS.toLocaleString()} plotted)`}
+                </DialogDescription>
+              </DialogHeader>
+              <ResponsiveContainer width="100%" height={360}>
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="x" type="number" name={selected.a} tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                  <YAxis dataKey="y" type="number" name={selected.b} tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                  <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                  <Scatter data={points} fill="#3b82f6" fillOpacity={0.6} />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
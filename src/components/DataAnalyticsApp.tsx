@@ -1,31 +1,169 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Database, BarChart3, MessageSquare, Upload, Sparkles } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
+import { Database, BarChart3, MessageSquare, Upload, Sparkles, Terminal, Trash2, ArrowLeft, ShoppingCart } from 'lucide-react';
 import { DataUpload } from './DataUpload';
 import { DataOverview } from './DataOverview';
 import { ChartBuilder } from './ChartBuilder';
 import { ChatInterface } from './ChatInterface';
+import { SqlWorkbench } from './SqlWorkbench';
+import { EcommerceDashboard } from './EcommerceDashboard';
+import { JoinBuilder } from './JoinBuilder';
+import { RecentWorkspaces } from './RecentWorkspaces';
+import { loadTable, dropTable, setActiveTable } from '@/lib/sql';
+import { createDataset, type Dataset } from '@/lib/workspace';
+import { fromRows, rowView, type ColumnarTable } from '@/lib/columnar';
+import { DEFAULT_CHART_CONFIG, type ChartConfig } from '@/lib/charts';
+import { DEFAULT_SETTINGS, clearLegacySettings, loadLegacySettings, normalizeSettings, type LLMSettings } from '@/lib/chat/settings';
+import { SHOWN_ROWS, type ChatMessage } from '@/lib/chat/messages';
+import type { RoleMapping } from '@/lib/ecommerce';
+import type { ValidationRule } from '@/lib/validation';
+import { saveWorkspace, saveTable, deleteTable, deleteWorkspace, loadStoredTable, latestSettings, type WorkspaceRecord } from '@/lib/storage';
+
+// Changes are written to IndexedDB once the workspace has been idle this long
+const AUTOSAVE_DELAY = 500;
+
+// Stable empty list, so datasets without rules don't re-run validation on every render
+const NO_RULES: ValidationRule[] = [];
 
 export function DataAnalyticsApp() {
-  const [data, setData] = useState<any[]>([]);
-  const [fileName, setFileName] = useState<string>('');
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
   const [activeTab, setActiveTab] = useState('upload');
+  const [chartConfigs, setChartConfigs] = useState<Record<string, ChartConfig>>({});
+  const [ruleSets, setRuleSets] = useState<Record<string, ValidationRule[]>>({});
+  const [roleMappings, setRoleMappings] = useState<Record<string, RoleMapping>>({});
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [settings, setSettings] = useState<LLMSettings>(DEFAULT_SETTINGS);
+  // Identity of the saved workspace; created with the first dataset
+  const [workspace, setWorkspace] = useState<{ id: string; createdAt: Date } | null>(null);
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+
+  const active = datasets.find(d => d.id === activeId);
+  const data = active?.data || [];
+  const fileName = active?.name || '';
+  const activeTable = active?.tableName;
+
+  // New workspaces start from the model settings used last
+  useEffect(() => {
+    latestSettings()
+      .catch(error => console.error('Failed to read model settings:', error))
+      .then(saved => {
+        const initial = saved ? normalizeSettings(saved) : loadLegacySettings();
+        // A workspace opened in the meantime brings its own settings
+        if (initial) setSettings(prev => (prev === DEFAULT_SETTINGS ? initial : prev));
+      });
+  }, []);
+
+  // Queries against `df` in the SQL tab and the chat assistant follow the active dataset
+  useEffect(() => {
+    if (!activeTable) return;
+    setActiveTable(activeTable).catch(error => console.error('Failed to switch the active table:', error));
+  }, [activeTable]);
+
+  useEffect(() => {
+    if (!workspace || datasets.length === 0) return;
+    const timer = setTimeout(() => {
+      const record: WorkspaceRecord = {
+        id: workspace.id,
+        name: datasets.length > 1 ? `${datasets[0].name} + ${datasets.length - 1} more` : datasets[0].name,
+        createdAt: workspace.createdAt,
+        updatedAt: new Date(),
+        datasets: datasets.map(({ table, data: _data, ...dataset }) => ({
+          ...dataset,
+          rowCount: table.rowCount,
+          columnCount: table.columns.length,
+        })),
+        activeId,
+        activeTab,
+        charts: chartConfigs,
+        rules: ruleSets,
+        roles: roleMappings,
+        // The record is rewritten on every autosave, so query results keep only the rows the thread shows
+        messages: messages.map(message => (message.data ? { ...message, data: message.data.slice(0, SHOWN_ROWS) } : message)),
+        settings,
+      };
+      saveWorkspace(record)
+        .then(clearLegacySettings)
+        .catch(error => console.error('Failed to save workspace:', error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspace, datasets, activeId, activeTab, chartConfigs, ruleSets, roleMappings, messages, settings]);
 
-  const handleDataLoaded = (newData: any[], newFileName: string) => {
-    setData(newData);
-    setFileName(newFileName);
+  const addDataset = (name: string, table: ColumnarTable, derivedFrom?: string) => {
+    const dataset = createDataset(name, table, datasets, derivedFrom);
+    loadTable(dataset.tableName, table).catch(error => console.error('Failed to load data into SQLite:', error));
+
+    const current = workspaceRef.current || { id: crypto.randomUUID(), createdAt: new Date() };
+    if (!workspaceRef.current) setWorkspace(current);
+    // Rows never change after import, so each dataset is written once
+    saveTable(current.id, dataset.id, table).catch(error => console.error('Failed to save dataset:', error));
+
+    setDatasets(prev => [...prev, dataset]);
+    setActiveId(dataset.id);
+    setIsAdding(false);
     setActiveTab('overview');
   };
 
-  const resetData = () => {
-    setData([]);
-    setFileName('');
+  const removeDataset = (id: string) => {
+    const dataset = datasets.find(d => d.id === id);
+    if (!dataset) return;
+    dropTable(dataset.tableName).catch(error => console.error('Failed to drop table:', error));
+
+    const remaining = datasets.filter(d => d.id !== id);
+    setDatasets(remaining);
+    setChartConfigs(({ [id]: _removed, ...rest }) => rest);
+    setRuleSets(({ [id]: _removed, ...rest }) => rest);
+    setRoleMappings(({ [id]: _removed, ...rest }) => rest);
+    if (activeId === id) setActiveId(remaining[0]?.id || null);
+
+    if (!workspace) return;
+    if (remaining.length > 0) {
+      deleteTable(workspace.id, id).catch(error => console.error('Failed to delete saved dataset:', error));
+      return;
+    }
+    // Removing the last dataset discards the saved workspace as well
+    deleteWorkspace(workspace.id, [id])
+      .catch(error => console.error('Failed to delete workspace:', error));
+    setWorkspace(null);
+    setMessages([]);
     setActiveTab('upload');
   };
 
+  const openWorkspace = async (record: WorkspaceRecord) => {
+    const restored = await Promise.all(
+      record.datasets.map(async ({ rowCount: _rowCount, columnCount: _columnCount, ...dataset }) => {
+        const table = await loadStoredTable(record.id, dataset.id);
+        return { ...dataset, table, data: rowView(table) };
+      })
+    );
+
+    datasets.forEach(d => dropTable(d.tableName).catch(error => console.error('Failed to drop table:', error)));
+    await Promise.all(restored.map(d => loadTable(d.tableName, d.table)));
+    const restoredActive = restored.find(d => d.id === record.activeId) || restored[0];
+    // Dropping the old tables cleared `df`; when the active table keeps its name
+    // the active table effect does not run again, so point the view at it here
+    if (restoredActive) {
+      await setActiveTable(restoredActive.tableName).catch(error => console.error('Failed to switch the active table:', error));
+    }
+
+    setWorkspace({ id: record.id, createdAt: record.createdAt });
+    setDatasets(restored);
+    setActiveId(restoredActive?.id || null);
+    setChartConfigs(record.charts);
+    setRuleSets(record.rules || {});
+    setRoleMappings(record.roles || {});
+    setMessages(record.messages);
+    if (record.settings) setSettings(normalizeSettings(record.settings));
+    setIsAdding(false);
+    setActiveTab(record.activeTab === 'upload' ? 'overview' : record.activeTab);
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -42,17 +180,46 @@ export function DataAnalyticsApp() {
               </div>
             </div>
             
-            {data.length > 0 && (
-              <div className="flex items-center gap-4">
-                <div className="text-right">
-                  <div className="text-sm font-medium">{fileName}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {data.length.toLocaleString()} rows loaded
-                  </div>
-                </div>
-                <Button variant="outline" onClick={resetData}>
+            {active && (
+              <div className="flex items-center gap-2">
+                <Select value={active.id} onValueChange={setActiveId}>
+                  <SelectTrigger className="w-56 h-auto py-1.5">
+                    <div className="text-left min-w-0">
+                      <div className="text-sm font-medium truncate">{active.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {active.data.length.toLocaleString()} rows · {active.tableName}
+                      </div>
+                    </div>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {datasets.map(d => (
+                      <SelectItem key={d.id} value={d.id}>
+                        <div>
+                          <div className="font-medium">{d.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {d.derivedFrom || `${d.data.length.toLocaleString()} rows`} · {d.tableName}
+                          </div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeDataset(active.id)}
+                  title={`Remove ${active.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <JoinBuilder
+                  datasets={datasets}
+                  activeId={active.id}
+                  onCreate={addDataset}
+                />
+                <Button variant="outline" onClick={() => setIsAdding(true)}>
                   <Upload className="h-4 w-4 mr-2" />
-                  New Dataset
+                  Add Dataset
                 </Button>
               </div>
             )}
@@ -61,7 +228,7 @@ export function DataAnalyticsApp() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {data.length === 0 ? (
+        {!active || isAdding ? (
           /* Upload State */
           <div className="max-w-2xl mx-auto">
             <div className="text-center mb-8">
@@ -109,13 +276,20 @@ export function DataAnalyticsApp() {
               </div>
             </div>
             
-            <DataUpload onDataLoaded={handleDataLoaded} />
+            {active && (
+              <Button variant="ghost" className="mb-4" onClick={() => setIsAdding(false)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to {active.name}
+              </Button>
+            )}
+            <DataUpload onDataLoaded={(table, name) => addDataset(name, table)} />
+            <RecentWorkspaces currentId={workspace?.id || null} onOpen={openWorkspace} />
           </div>
         ) : (
           /* Analysis State */
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <div className="flex items-center justify-between">
-              <TabsList className="grid w-fit grid-cols-3">
+              <TabsList className="grid w-fit grid-cols-5">
                 <TabsTrigger value="overview" className="flex items-center gap-2">
                   <Database className="h-4 w-4" />
                   Overview
@@ -124,6 +298,14 @@ export function DataAnalyticsApp() {
                   <BarChart3 className="h-4 w-4" />
                   Charts
                 </TabsTrigger>
+                <TabsTrigger value="commerce" className="flex items-center gap-2">
+                  <ShoppingCart className="h-4 w-4" />
+                  Commerce
+                </TabsTrigger>
+                <TabsTrigger value="sql" className="flex items-center gap-2">
+                  <Terminal className="h-4 w-4" />
+                  SQL
+                </TabsTrigger>
                 <TabsTrigger value="chat" className="flex items-center gap-2">
                   <MessageSquare className="h-4 w-4" />
                   Chat
@@ -132,7 +314,7 @@ export function DataAnalyticsApp() {
               
               <div className="flex items-center gap-2">
                 <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20">
-                  {Object.keys(data[0] || {}).length} columns
+                  {active.table.columns.length} columns
                 </Badge>
                 <Badge variant="secondary" className="bg-chart-3/10 text-chart-3 border-chart-3/20">
                   {data.length.toLocaleString()} rows
@@ -141,15 +323,50 @@ export function DataAnalyticsApp() {
             </div>
 
             <TabsContent value="overview" className="space-y-6">
-              <DataOverview data={data} fileName={fileName} />
+              <DataOverview
+                data={data}
+                fileName={fileName}
+                onCreateDataset={(name, rows, derivedFrom) => addDataset(name, fromRows(rows), derivedFrom)}
+                rules={ruleSets[active.id] || NO_RULES}
+                onRulesChange={(rules) => setRuleSets(prev => ({ ...prev, [active.id]: rules }))}
+                datasets={datasets}
+              />
             </TabsContent>
 
             <TabsContent value="charts" className="space-y-6">
-              <ChartBuilder data={data} fileName={fileName} />
+              <ChartBuilder
+                data={data}
+                fileName={fileName}
+                config={chartConfigs[active.id] || DEFAULT_CHART_CONFIG}
+                onConfigChange={(config) => setChartConfigs(prev => ({ ...prev, [active.id]: config }))}
+              />
+            </TabsContent>
+
+            <TabsContent value="commerce" className="space-y-6">
+              <EcommerceDashboard
+                key={active.id}
+                data={data}
+                fileName={fileName}
+                mapping={roleMappings[active.id]}
+                onMappingChange={(mapping) => setRoleMappings(prev => ({ ...prev, [active.id]: mapping }))}
+              />
+            </TabsContent>
+
+            <TabsContent value="sql" className="space-y-6">
+              <SqlWorkbench data={data} fileName={fileName} />
             </TabsContent>
 
             <TabsContent value="chat" className="space-y-6">
-              <ChatInterface data={data} fileName={fileName} />
+              <ChatInterface
+                data={data}
+                fileName={fileName}
+                datasets={datasets}
+                activeTable={activeTable!}
+                messages={messages}
+                onMessagesChange={setMessages}
+                settings={settings}
+                onSettingsChange={setSettings}
+              />
             </TabsContent>
           </Tabs>
         )}
@@ -1,99 +1,91 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
-import { BarChart3, Database, TrendingUp, AlertCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { BarChart3, Database, TrendingUp, AlertCircle, Loader2, ShieldAlert } from 'lucide-react';
+import { ColumnDetailSheet } from '@/components/ColumnDetailSheet';
+import { InsightsPanel } from '@/components/InsightsPanel';
+import { CorrelationHeatmap } from '@/components/CorrelationHeatmap';
+import { OutlierPanel } from '@/components/OutlierPanel';
+import { DuplicatePanel } from '@/components/DuplicatePanel';
+import { ValidationPanel } from '@/components/ValidationPanel';
+import { useProfile } from '@/hooks/use-profile';
+import { formatNumber } from '@/lib/utils';
+import { getColumnProfile, type ColumnProfile } from '@/lib/profile';
+import { semanticLabel } from '@/lib/semantic';
+import { piiLabel } from '@/lib/pii';
+import type { ValidationRule } from '@/lib/validation';
+import type { Dataset } from '@/lib/workspace';
 
 interface DataOverviewProps {
   data: any[];
   fileName: string;
+  onCreateDataset?: (name: string, data: Record<string, unknown>[], derivedFrom: string) => void;
+  rules: ValidationRule[];
+  onRulesChange: (rules: ValidationRule[]) => void;
+  /** Every dataset in the workspace, for foreign key rules */
+  datasets: Dataset[];
 }
 
-export function DataOverview({ data, fileName }: DataOverviewProps) {
+// One-line summary of a column's values for the profile table
+const describeColumn = (column: ColumnProfile) => {
+  if (column.type === 'numeric' && column.numeric) {
+    const { min, max, mean, median } = column.numeric;
+    return `${formatNumber(min)} – ${formatNumber(max)} · mean ${formatNumber(mean)} · median ${formatNumber(median)}`;
+  }
+  if (column.type === 'date' && column.dates) {
+    return `${column.dates.min.slice(0, 10)} – ${column.dates.max.slice(0, 10)}`;
+  }
+  const top = column.topValues[0];
+  return top ? `Most common: ${top.value} (${top.count.toLocaleString()})` : 'No values';
+};
+
+export function DataOverview({ data, fileName, onCreateDataset, rules, onRulesChange, datasets }: DataOverviewProps) {
+  const { profile, progress, error } = useProfile(data);
+  const [selectedColumn, setSelectedColumn] = useState<string | null>(null);
+
   const analysis = useMemo(() => {
-    if (!data || data.length === 0) return null;
-    
-    const columns = Object.keys(data[0] || {});
-    const rowCount = data.length;
-    
-    // Type analysis
-    const columnTypes: Record<string, string> = {};
-    const nullCounts: Record<string, number> = {};
-    const numericColumns: string[] = [];
-    const textColumns: string[] = [];
-    const dateColumns: string[] = [];
-    
-    columns.forEach(col => {
-      let numericCount = 0;
-      let nullCount = 0;
-      let dateCount = 0;
-      
-      data.slice(0, Math.min(100, data.length)).forEach(row => {
-        const value = row[col];
-        
-        if (value === null || value === undefined || value === '') {
-          nullCount++;
-        } else if (!isNaN(Number(value)) && value !== '') {
-          numericCount++;
-        } else if (typeof value === 'string' && !isNaN(Date.parse(value))) {
-          dateCount++;
-        }
-      });
-      
-      nullCounts[col] = nullCount;
-      
-      if (numericCount > data.length * 0.7) {
-        columnTypes[col] = 'numeric';
-        numericColumns.push(col);
-      } else if (dateCount > data.length * 0.5) {
-        columnTypes[col] = 'date';
-        dateColumns.push(col);
-      } else {
-        columnTypes[col] = 'text';
-        textColumns.push(col);
-      }
-    });
-    
-    // Basic statistics for numeric columns
-    const numericStats: Record<string, any> = {};
-    numericColumns.forEach(col => {
-      const values = data
-        .map(row => Number(row[col]))
-        .filter(val => !isNaN(val));
-      
-      if (values.length > 0) {
-        values.sort((a, b) => a - b);
-        const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-        const median = values[Math.floor(values.length / 2)];
-        
-        numericStats[col] = {
-          min: Math.min(...values),
-          max: Math.max(...values),
-          mean: mean,
-          median: median,
-          count: values.length
-        };
-      }
-    });
-    
+    if (!profile) return null;
+    const ofType = (...types: ColumnProfile['type'][]) => profile.columns.filter(c => types.includes(c.type)).map(c => c.name);
+
     return {
-      rowCount,
-      columnCount: columns.length,
-      columns,
-      columnTypes,
-      nullCounts,
-      numericColumns,
-      textColumns,
-      dateColumns,
-      numericStats
+      rowCount: profile.rowCount,
+      columnCount: profile.columns.length,
+      columns: profile.columns.map(c => c.name),
+      nullCounts: Object.fromEntries(profile.columns.map(c => [c.name, c.missingCount])),
+      numericColumns: ofType('numeric'),
+      textColumns: ofType('text', 'boolean', 'empty'),
+      dateColumns: ofType('date'),
     };
-  }, [data]);
-  
-  if (!analysis) return null;
+  }, [profile]);
+
+  if (error) {
+    return (
+      <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-md p-3 flex items-start gap-2 text-sm">
+        <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+        <span>Failed to profile the data: {error}</span>
+      </div>
+    );
+  }
+
+  if (!profile || !analysis) {
+    return (
+      <Card>
+        <CardContent className="p-8 flex flex-col items-center gap-3">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          <p className="text-sm text-muted-foreground">
+            Profiling {data.length.toLocaleString()} rows...
+          </p>
+          <Progress value={progress * 100} className="w-full max-w-md" />
+        </CardContent>
+      </Card>
+    );
+  }
   
   const totalCells = analysis.rowCount * analysis.columnCount;
   const totalNulls = Object.values(analysis.nullCounts).reduce((sum, count) => sum + count, 0);
-  const completeness = ((totalCells - totalNulls) / totalCells * 100).toFixed(1);
+  const completeness = totalCells > 0 ? ((totalCells - totalNulls) / totalCells * 100).toFixed(1) : '100.0';
+  const personalColumns = profile.columns.filter(c => c.pii);
   
   return (
     <div className="space-y-6">
@@ -157,6 +149,29 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
         </Card>
       </div>
       
+      {personalColumns.length > 0 && (
+        <div className="bg-chart-4/10 border border-chart-4/30 rounded-md p-3 flex items-start gap-2 text-sm">
+          <ShieldAlert className="h-4 w-4 flex-shrink-0 mt-0.5 text-chart-4" />
+          <div className="space-y-2">
+            <p>
+              {personalColumns.length === 1 ? 'One column looks' : `${personalColumns.length} columns look`} like personal data.
+              The chat assistant masks, hashes or leaves them out before anything is sent to the model, as set in its model settings.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {personalColumns.map(column => (
+                <button key={column.name} type="button" onClick={() => setSelectedColumn(column.name)}>
+                  <Badge variant="outline" className="text-xs cursor-pointer hover:bg-muted">
+                    {column.name} · {piiLabel(column.pii!)}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <InsightsPanel profile={profile} onSelectColumn={setSelectedColumn} />
+
       {/* Column Analysis */}
       <div className="grid md:grid-cols-2 gap-6">
         <Card>
@@ -171,9 +186,11 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
                 </div>
                 <div className="flex flex-wrap gap-1">
                   {analysis.numericColumns.map(col => (
-                    <Badge key={col} variant="outline" className="text-xs">
-                      {col}
-                    </Badge>
+                    <button key={col} type="button" onClick={() => setSelectedColumn(col)}>
+                      <Badge variant="outline" className="text-xs cursor-pointer hover:bg-muted">
+                        {col}
+                      </Badge>
+                    </button>
                   ))}
                 </div>
               </div>
@@ -186,9 +203,11 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
                 </div>
                 <div className="flex flex-wrap gap-1">
                   {analysis.textColumns.map(col => (
-                    <Badge key={col} variant="outline" className="text-xs">
-                      {col}
-                    </Badge>
+                    <button key={col} type="button" onClick={() => setSelectedColumn(col)}>
+                      <Badge variant="outline" className="text-xs cursor-pointer hover:bg-muted">
+                        {col}
+                      </Badge>
+                    </button>
                   ))}
                 </div>
               </div>
@@ -201,9 +220,11 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
                 </div>
                 <div className="flex flex-wrap gap-1">
                   {analysis.dateColumns.map(col => (
-                    <Badge key={col} variant="outline" className="text-xs">
-                      {col}
-                    </Badge>
+                    <button key={col} type="button" onClick={() => setSelectedColumn(col)}>
+                      <Badge variant="outline" className="text-xs cursor-pointer hover:bg-muted">
+                        {col}
+                      </Badge>
+                    </button>
                   ))}
                 </div>
               </div>
@@ -216,24 +237,29 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
             <CardTitle className="text-lg">Data Quality</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-3">
-              {analysis.columns.slice(0, 8).map(col => {
-                const nullPercent = (analysis.nullCounts[col] / analysis.rowCount * 100).toFixed(1);
+            <div className="space-y-1 max-h-80 overflow-y-auto pr-1">
+              {analysis.columns.map(col => {
+                const completePercent = (100 - analysis.nullCounts[col] / analysis.rowCount * 100).toFixed(1);
                 return (
-                  <div key={col} className="flex items-center justify-between">
+                  <button
+                    key={col}
+                    type="button"
+                    onClick={() => setSelectedColumn(col)}
+                    className="w-full flex items-center justify-between rounded-md px-2 py-1 text-left hover:bg-muted/50"
+                  >
                     <span className="text-sm font-medium truncate mr-2">{col}</span>
                     <div className="flex items-center gap-2">
                       <div className="w-16 bg-muted rounded-full h-2">
                         <div 
                           className="bg-primary h-2 rounded-full" 
-                          style={{ width: `${100 - Number(nullPercent)}%` }}
+                          style={{ width: `${completePercent}%` }}
                         />
                       </div>
                       <span className="text-xs text-muted-foreground w-12">
-                        {100 - Number(nullPercent)}%
+                        {completePercent}%
                       </span>
                     </div>
-                  </div>
+                  </button>
                 );
               })}
             </div>
@@ -241,6 +267,70 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
         </Card>
       </div>
       
+      {/* Column Profiles */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Column Profiles</CardTitle>
+          <p className="text-sm text-muted-foreground">Click a column for its distribution, top values and examples</p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Column</th>
+                  <th className="text-left p-2 font-medium">Type</th>
+                  <th className="text-right p-2 font-medium">Missing</th>
+                  <th className="text-right p-2 font-medium">Unique</th>
+                  <th className="text-left p-2 font-medium">Values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.columns.map(column => (
+                  <tr
+                    key={column.name}
+                    className="border-b cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedColumn(column.name)}
+                  >
+                    <td className="p-2 font-medium truncate max-w-40">{column.name}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      <Badge variant="outline" className="text-xs">{column.type}</Badge>
+                      {column.type !== 'empty' && column.confidence < 1 && (
+                        <span className="ml-1 text-xs text-muted-foreground">{Math.round(column.confidence * 100)}%</span>
+                      )}
+                      {column.semantic && (
+                        <Badge variant="secondary" className="ml-1 text-xs">{semanticLabel(column.semantic.type)}</Badge>
+                      )}
+                      {column.pii && (
+                        <Badge variant="destructive" className="ml-1 text-xs" title={piiLabel(column.pii)}>PII</Badge>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{column.missingCount.toLocaleString()}</td>
+                    <td className="p-2 text-right">{column.uniqueCount.toLocaleString()}</td>
+                    <td className="p-2 text-muted-foreground truncate max-w-80">{describeColumn(column)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CorrelationHeatmap data={data} correlation={profile.correlation} />
+
+      <OutlierPanel data={data} profile={profile} fileName={fileName} onCreateDataset={onCreateDataset} />
+
+      <DuplicatePanel data={data} profile={profile} fileName={fileName} onCreateDataset={onCreateDataset} />
+
+      <ValidationPanel
+        data={data}
+        fileName={fileName}
+        columns={analysis.columns}
+        rules={rules}
+        onRulesChange={onRulesChange}
+        datasets={datasets}
+      />
+
       {/* Sample Data */}
       <Card>
         <CardHeader>
@@ -278,6 +368,11 @@ export function DataOverview({ data, fileName }: DataOverviewProps) {
           )}
         </CardContent>
       </Card>
+
+      <ColumnDetailSheet
+        column={selectedColumn ? getColumnProfile(profile, selectedColumn) || null : null}
+        onClose={() => setSelectedColumn(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,12 +1,22 @@
-import { useState, useCallback } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
+import { useState, useCallback, useRef } from 'react';
+import { Upload, FileText, X, ArrowRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import Papa from 'papaparse';
+import { importFile, listWorkbookSheets, ImportCancelledError, type ImportJob, type IngestProgress } from '@/lib/ingest';
+import { detectFormat, ACCEPTED_EXTENSIONS, FORMAT_LABELS, type FileFormat } from '@/lib/formats';
+import type { ColumnarTable } from '@/lib/columnar';
+import type { ImportOptions } from '@/lib/schema';
+import { ImportPreview } from './ImportPreview';
+
+const MAX_FILE_SIZE = 200 * 1024 * 1024;
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 interface DataUploadProps {
-  onDataLoaded: (data: any[], fileName: string) => void;
+  onDataLoaded: (table: ColumnarTable, fileName: string) => void;
 }
 
 export function DataUpload({ onDataLoaded }: DataUploadProps) {
@@ -14,67 +24,113 @@ export function DataUpload({ onDataLoaded }: DataUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
 
-  const handleFileProcessing = useCallback(async (file: File) => {
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [workbook, setWorkbook] = useState<{ file: File; sheets: string[]; sheet: string } | null>(null);
+  // File waiting in the preview step for the user to review its columns
+  const [pending, setPending] = useState<{ file: File; format: FileFormat; sheet?: string } | null>(null);
+  const jobRef = useRef<ImportJob | null>(null);
+
+  const importData = useCallback(async (file: File, format: FileFormat, options: ImportOptions) => {
+    const label = FORMAT_LABELS[format];
+    const name = options.sheet ? `${file.name} [${options.sheet}]` : file.name;
+
+    setPending(null);
     setIsUploading(true);
+    setProgress({ bytesLoaded: 0, totalBytes: file.size, rowCount: 0 });
+    const job = importFile(file, format, options, setProgress);
+    jobRef.current = job;
     
     try {
-      const text = await file.text();
+      const { table, errorCount } = await job.promise;
+      
+      if (errorCount > 0) {
+        toast({
+          title: `${label} Parse Warning`,
+          description: `Found ${errorCount} parsing issues, but continuing with data loading.`,
+          variant: "default"
+        });
+      }
       
-      Papa.parse(text, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: true,
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            toast({
-              title: "CSV Parse Warning",
-              description: `Found ${results.errors.length} parsing issues, but continuing with data loading.`,
-              variant: "default"
-            });
-          }
-          
-          onDataLoaded(results.data, file.name);
-          toast({
-            title: "CSV Loaded Successfully",
-            description: `Loaded ${results.data.length} rows from ${file.name}`,
-          });
-        },
-        error: (error) => {
-          toast({
-            title: "Error Loading CSV",
-            description: error.message,
-            variant: "destructive"
-          });
-        }
+      // The table stays columnar; rows are only built as they are read
+      onDataLoaded(table, name);
+      toast({
+        title: `${label} Loaded Successfully`,
+        description: `Loaded ${table.rowCount.toLocaleString()} rows from ${name}`,
       });
     } catch (error) {
+      if (error instanceof ImportCancelledError) {
+        toast({
+          title: "Import Cancelled",
+          description: `Stopped loading ${file.name}`,
+        });
+      } else {
+        toast({
+          title: `Error Loading ${label}`,
+          description: error instanceof Error ? error.message : `Failed to read the ${label} file`,
+          variant: "destructive"
+        });
+      }
+    } finally {
+      jobRef.current = null;
+      setProgress(null);
+      setIsUploading(false);
+    }
+  }, [onDataLoaded, toast]);
+
+  const handleFileProcessing = useCallback(async (file: File) => {
+    if (file.size > MAX_FILE_SIZE) {
       toast({
-        title: "Error Processing File",
-        description: "Failed to read the CSV file",
+        title: "File Too Large",
+        description: `${file.name} is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_FILE_SIZE)}`,
         variant: "destructive"
       });
-    } finally {
+      return;
+    }
+
+    const format = await detectFormat(file);
+    if (!format) {
+      toast({
+        title: "Invalid File Type",
+        description: `Unsupported file: ${file.name}. Please upload a CSV, TSV, Excel, JSON, NDJSON or Parquet file`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (format !== 'excel') {
+      setPending({ file, format });
+      return;
+    }
+
+    // Workbooks with several sheets ask which one to import first
+    setIsUploading(true);
+    try {
+      const sheets = await listWorkbookSheets(file);
       setIsUploading(false);
+      if (sheets.length > 1) {
+        setWorkbook({ file, sheets, sheet: sheets[0] });
+      } else {
+        setPending({ file, format, sheet: sheets[0] });
+      }
+    } catch (error) {
+      setIsUploading(false);
+      toast({
+        title: "Error Loading Excel",
+        description: error instanceof Error ? error.message : "Failed to read the workbook",
+        variant: "destructive"
+      });
     }
-  }, [onDataLoaded, toast]);
+  }, [toast]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(file => file.type === 'text/csv' || file.name.endsWith('.csv'));
-    
-    if (csvFile) {
-      handleFileProcessing(csvFile);
-    } else {
-      toast({
-        title: "Invalid File Type",
-        description: "Please upload a CSV file",
-        variant: "destructive"
-      });
+    const file = e.dataTransfer.files[0];
+    if (file && !isUploading) {
+      handleFileProcessing(file);
     }
-  }, [handleFileProcessing, toast]);
+  }, [handleFileProcessing, isUploading]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -83,6 +139,18 @@ export function DataUpload({ onDataLoaded }: DataUploadProps) {
     }
   }, [handleFileProcessing]);
 
+  if (pending) {
+    return (
+      <ImportPreview
+        file={pending.file}
+        format={pending.format}
+        sheet={pending.sheet}
+        onImport={(options) => importData(pending.file, pending.format, options)}
+        onBack={() => setPending(null)}
+      />
+    );
+  }
+
   return (
     <Card className="border-2 border-dashed border-border hover:border-primary transition-colors">
       <CardContent className="p-8">
@@ -109,29 +177,84 @@ export function DataUpload({ onDataLoaded }: DataUploadProps) {
             </div>
             
             <h3 className="text-lg font-semibold mb-2">
-              {isUploading ? 'Processing CSV...' : 'Upload your CSV file'}
+              {isUploading ? 'Processing file...' : workbook ? 'Choose a sheet' : 'Upload your data file'}
             </h3>
             
-            <p className="text-muted-foreground text-center mb-6 max-w-md">
-              Drag and drop your CSV file here, or click to browse. We'll automatically analyze your data and generate insights.
-            </p>
+            {progress ? (
+              <div className="w-full max-w-md space-y-2 mb-6">
+                <Progress value={progress.totalBytes > 0 ? (progress.bytesLoaded / progress.totalBytes) * 100 : 0} />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {formatBytes(progress.bytesLoaded)} of {formatBytes(progress.totalBytes)}
+                    {' '}({progress.totalBytes > 0 ? Math.round((progress.bytesLoaded / progress.totalBytes) * 100) : 0}%)
+                  </span>
+                  <span>{progress.rowCount.toLocaleString()} rows</span>
+                </div>
+              </div>
+            ) : workbook ? (
+              <div className="w-full max-w-md space-y-2 mb-6">
+                <p className="text-sm text-muted-foreground text-center">
+                  {workbook.file.name} contains {workbook.sheets.length} sheets
+                </p>
+                <Select value={workbook.sheet} onValueChange={(sheet) => setWorkbook({ ...workbook, sheet })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workbook.sheets.map(sheet => (
+                      <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-center mb-6 max-w-md">
+                Drag and drop your data file here, or click to browse. We'll automatically analyze your data and generate insights.
+              </p>
+            )}
             
             <div className="flex gap-4">
-              <Button 
-                variant="outline" 
-                disabled={isUploading}
-                onClick={() => document.getElementById('file-input')?.click()}
-              >
-                <FileText className="h-4 w-4 mr-2" />
-                Choose File
-              </Button>
+              {isUploading ? (
+                <Button variant="outline" onClick={() => jobRef.current?.cancel()} disabled={!progress}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              ) : workbook ? (
+                <>
+                  <Button variant="outline" onClick={() => setWorkbook(null)}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setPending({ file: workbook.file, format: 'excel', sheet: workbook.sheet });
+                      setWorkbook(null);
+                    }}
+                  >
+                    <ArrowRight className="h-4 w-4 mr-2" />
+                    Continue
+                  </Button>
+                </>
+              ) : (
+                <Button 
+                  variant="outline" 
+                  onClick={() => document.getElementById('file-input')?.click()}
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Choose File
+                </Button>
+              )}
             </div>
             
             <input
               id="file-input"
               type="file"
-              accept=".csv"
-              onChange={handleFileInput}
+              accept={ACCEPTED_EXTENSIONS}
+              onChange={(e) => {
+                handleFileInput(e);
+                // Allow picking the same file again after a cancel
+                e.target.value = '';
+              }}
               className="hidden"
               disabled={isUploading}
             />
@@ -139,7 +262,7 @@ export function DataUpload({ onDataLoaded }: DataUploadProps) {
         </div>
         
         <div className="mt-6 text-xs text-muted-foreground text-center">
-          Supported format: CSV files up to 200MB
+          Supported formats: CSV, TSV, Excel, JSON, NDJSON and Parquet files up to 200MB
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,263 @@
+import { useMemo, useState } from 'react';
+import { Copy, Filter } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAnalysis } from '@/hooks/use-analysis';
+import {
+  KEEP_STRATEGIES,
+  MAX_FUZZY_VALUES,
+  dedupe,
+  suggestKeyColumns,
+  type DuplicateGroup,
+  type KeepStrategy,
+} from '@/lib/duplicates';
+import type { DatasetProfile } from '@/lib/profile';
+
+interface DuplicatePanelProps {
+  data: Record<string, unknown>[];
+  profile: DatasetProfile;
+  fileName: string;
+  /** Adds a derived dataset to the workspace; deduping is unavailable without it */
+  onCreateDataset?: (name: string, data: Record<string, unknown>[], derivedFrom: string) => void;
+}
+
+type Check = 'rows' | 'keys' | 'fuzzy';
+
+const SHOWN_GROUPS = 20;
+const PREVIEW_COLUMNS = 4;
+const NO_GROUPS: DuplicateGroup[] = [];
+
+const EDIT_DISTANCES = [
+  { id: '0', label: 'Case and spacing only' },
+  { id: '1', label: 'Up to 1 typo' },
+  { id: '2', label: 'Up to 2 typos' },
+];
+
+const baseName = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '');
+
+const extraRows = (groups: DuplicateGroup[]) => groups.reduce((sum, group) => sum + group.length - 1, 0);
+
+const rowList = (group: DuplicateGroup) => {
+  const shown = group.slice(0, 8).map(index => index + 1).join(', ');
+  return group.length > 8 ? `${shown} and ${group.length - 8} more` : shown;
+};
+
+export function DuplicatePanel({ data, profile, fileName, onCreateDataset }: DuplicatePanelProps) {
+  const [check, setCheck] = useState<Check>('rows');
+  const [keep, setKeep] = useState<KeepStrategy>('first');
+  const [chosenKey, setChosenKey] = useState('');
+  const [chosenText, setChosenText] = useState('');
+  const [distance, setDistance] = useState('1');
+  const { toast } = useToast();
+
+  const columns = useMemo(() => profile.columns.map(c => c.name), [profile]);
+  const keyColumns = useMemo(() => suggestKeyColumns(profile), [profile]);
+  const textColumns = useMemo(
+    () => profile.columns.filter(c => c.type === 'text' && c.uniqueCount > 1).map(c => c.name),
+    [profile]
+  );
+
+  // Any column can be checked as a key; the suggestion is only the default
+  const keyColumn = columns.includes(chosenKey) ? chosenKey : keyColumns[0] || columns[0] || '';
+  const textColumn = textColumns.includes(chosenText) ? chosenText : textColumns[0] || '';
+
+  const rowRequest = useMemo(() => ({ kind: 'duplicates' as const, columns }), [columns]);
+  const keyRequest = useMemo(
+    () => (check === 'keys' && keyColumn ? { kind: 'duplicates' as const, columns: [keyColumn] } : null),
+    [check, keyColumn]
+  );
+  const fuzzyRequest = useMemo(
+    () => (check === 'fuzzy' && textColumn ? { kind: 'fuzzy' as const, column: textColumn, maxDistance: Number(distance) } : null),
+    [check, textColumn, distance]
+  );
+  const rowScan = useAnalysis(data, rowRequest);
+  const keyScan = useAnalysis(data, keyRequest);
+  const fuzzyScan = useAnalysis(data, fuzzyRequest);
+  const rowGroups = rowScan.result || NO_GROUPS;
+  const fuzzy = fuzzyScan.result;
+
+  const scan = check === 'rows' ? rowScan : check === 'keys' ? keyScan : fuzzyScan;
+  const groups = check === 'rows' ? rowGroups : check === 'keys' ? keyScan.result || NO_GROUPS : fuzzy?.clusters.map(c => c.rows) || NO_GROUPS;
+  const previewColumns = columns
+    .filter(c => (check === 'keys' ? c !== keyColumn : check === 'fuzzy' ? c !== textColumn : true))
+    .slice(0, PREVIEW_COLUMNS);
+
+  const handleDedupe = () => {
+    if (!onCreateDataset) return;
+    const rows = dedupe(data, groups, keep);
+    const strategy = KEEP_STRATEGIES.find(s => s.id === keep)!.label.toLowerCase();
+    const scope = check === 'rows' ? 'identical rows' : check === 'keys' ? `duplicate ${keyColumn}` : `similar ${textColumn}`;
+    const name = `${baseName(fileName)} deduped`;
+    onCreateDataset(name, rows, `${fileName} without ${scope} (${strategy})`);
+    toast({
+      title: "Dataset Created",
+      description: `${name} has ${rows.length.toLocaleString()} rows (${(data.length - rows.length).toLocaleString()} removed)`,
+    });
+  };
+
+  const previewRow = (index: number) => (
+    <div key={index} className="flex gap-3 text-xs min-w-0">
+      <span className="text-muted-foreground w-14 flex-shrink-0 text-right">#{index + 1}</span>
+      {previewColumns.map(col => (
+        <span key={col} className="truncate max-w-32" title={`${col}: ${String(data[index][col] ?? '')}`}>
+          {String(data[index][col] ?? '—')}
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Copy className="h-5 w-5 text-primary" />
+          Duplicates
+          {rowGroups.length > 0 && (
+            <Badge variant="destructive" className="ml-1">
+              {extraRows(rowGroups).toLocaleString()} duplicate rows
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={check} onValueChange={value => setCheck(value as Check)} className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="rows">Identical Rows</TabsTrigger>
+            <TabsTrigger value="keys">Key Columns</TabsTrigger>
+            <TabsTrigger value="fuzzy" disabled={textColumns.length === 0}>Near-Duplicates</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rows" className="m-0">
+            <p className="text-sm text-muted-foreground">Rows whose values match in every column</p>
+          </TabsContent>
+
+          <TabsContent value="keys" className="m-0 space-y-2">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Key column</Label>
+                <Select value={keyColumn} onValueChange={setChosenKey}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map(col => (
+                      <SelectItem key={col} value={col}>
+                        {col}{keyColumns.includes(col) ? ' (suggested)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {keyColumns.length > 0
+                ? `Suggested keys, where nearly every value is unique: ${keyColumns.slice(0, 5).join(', ')}`
+                : 'No column is unique enough to be a key'}
+            </p>
+          </TabsContent>
+
+          <TabsContent value="fuzzy" className="m-0 space-y-2">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Text column</Label>
+                <Select value={textColumn} onValueChange={setChosenText}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {textColumns.map(col => (
+                      <SelectItem key={col} value={col}>{col}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Match</Label>
+                <Select value={distance} onValueChange={setDistance}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EDIT_DISTANCES.map(d => (
+                      <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {fuzzy && !fuzzy.compared && (
+              <p className="text-xs text-muted-foreground">
+                More than {MAX_FUZZY_VALUES.toLocaleString()} distinct values: only case and spacing differences are checked
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-medium">
+              {scan.error
+                ? `Duplicate scan failed: ${scan.error}`
+                : !scan.result
+                  ? 'Scanning rows for duplicates...'
+                  : groups.length === 0
+                    ? 'No duplicates found'
+                    : `${groups.length.toLocaleString()} ${groups.length === 1 ? 'group' : 'groups'} · ${extraRows(groups).toLocaleString()} extra rows`}
+            </h3>
+            {onCreateDataset && (
+              <div className="flex items-center gap-2">
+                <Select value={keep} onValueChange={value => setKeep(value as KeepStrategy)}>
+                  <SelectTrigger className="w-44 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEEP_STRATEGIES.map(s => (
+                      <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleDedupe} disabled={groups.length === 0}>
+                  <Filter className="h-4 w-4 mr-2" />
+                  Dedupe into new dataset
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {groups.length > 0 && (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {groups.slice(0, SHOWN_GROUPS).map((group, i) => (
+                <div key={group[0]} className="rounded-md border p-3 space-y-1">
+                  <div className="flex flex-wrap items-center gap-1 text-sm">
+                    {check === 'keys' && (
+                      <span className="font-medium">{keyColumn} = {String(data[group[0]][keyColumn])}</span>
+                    )}
+                    {check === 'fuzzy' && fuzzy?.clusters[i].values.map(({ value, count }) => (
+                      <Badge key={value} variant="outline" className="font-mono text-xs">
+                        {value} ({count.toLocaleString()})
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {group.length.toLocaleString()} rows: {rowList(group)}
+                    </span>
+                  </div>
+                  {check !== 'fuzzy' && group.slice(0, 3).map(previewRow)}
+                </div>
+              ))}
+              {groups.length > SHOWN_GROUPS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing {SHOWN_GROUPS} of {groups.length.toLocaleString()} groups
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,355 @@
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertCircle, Check, Download, Loader2, Pencil, ShoppingCart } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProfile } from '@/hooks/use-profile';
+import { downloadCSV } from '@/lib/csv';
+import { formatNumber } from '@/lib/utils';
+import {
+  ECOMMERCE_ROLES,
+  cohortRetention,
+  computeKpis,
+  detectRoles,
+  revenueBy,
+  rfmAnalysis,
+  summarizeSegments,
+  type EcommerceRole,
+  type RoleMapping,
+} from '@/lib/ecommerce';
+
+interface EcommerceDashboardProps {
+  data: Record<string, unknown>[];
+  fileName: string;
+  /** The confirmed column roles; undefined until the user confirms them */
+  mapping?: RoleMapping;
+  onMappingChange: (mapping: RoleMapping) => void;
+}
+
+// Select items can't have an empty value
+const NONE = '__none__';
+
+const REQUIRED: Partial<Record<EcommerceRole, string>> = {
+  revenue: 'KPIs',
+  customer_id: 'RFM segments and cohorts',
+  date: 'RFM segments and cohorts',
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '');
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const formatValue = (value: number | null) => (value === null ? '—' : formatNumber(value));
+
+// Darker cells for a larger share of the cohort still ordering
+const retentionColor = (share: number) => `rgba(59, 130, 246, ${Math.min(1, share).toFixed(2)})`;
+
+function Kpi({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4" title={hint}>
+        <div className="text-2xl font-bold truncate">{value}</div>
+        <div className="text-xs text-muted-foreground">{label}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RevenueChart({ title, data }: { title: string; data: { name: string; value: number }[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" tickFormatter={value => formatNumber(Number(value))} />
+            <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 11 }} tickFormatter={name => String(name).slice(0, 18)} />
+            <Tooltip formatter={value => formatNumber(Number(value))} />
+            <Bar dataKey="value" name="Revenue" fill="#3b82f6" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function EcommerceDashboard({ data, fileName, mapping, onMappingChange }: EcommerceDashboardProps) {
+  const { profile, progress, error } = useProfile(data);
+  const [draft, setDraft] = useState<RoleMapping | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const detected = useMemo(() => (profile ? detectRoles(profile) : {}), [profile]);
+  const roles = draft || mapping || detected;
+  const editing = !mapping || isEditing;
+
+  const kpis = useMemo(() => (mapping ? computeKpis(data, mapping) : null), [data, mapping]);
+  const customers = useMemo(() => (mapping ? rfmAnalysis(data, mapping) : []), [data, mapping]);
+  const segments = useMemo(() => summarizeSegments(customers), [customers]);
+  const cohorts = useMemo(() => (mapping ? cohortRetention(data, mapping) : []), [data, mapping]);
+  const topProducts = useMemo(() => (mapping?.product ? revenueBy(data, mapping.product, mapping) : []), [data, mapping]);
+  const topCategories = useMemo(() => (mapping?.category ? revenueBy(data, mapping.category, mapping) : []), [data, mapping]);
+
+  if (error) {
+    return (
+      <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-md p-3 flex items-start gap-2 text-sm">
+        <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+        <span>Failed to profile the data: {error}</span>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <Card>
+        <CardContent className="p-8 flex flex-col items-center gap-3">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          <p className="text-sm text-muted-foreground">
+            Profiling {data.length.toLocaleString()} rows...
+          </p>
+          <Progress value={progress * 100} className="w-full max-w-md" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const setRole = (role: EcommerceRole, column: string) => {
+    const { [role]: _previous, ...rest } = roles;
+    setDraft(column === NONE ? rest : { ...rest, [role]: column });
+  };
+
+  const confirm = () => {
+    onMappingChange(roles);
+    setDraft(null);
+    setIsEditing(false);
+  };
+
+  const exportCustomers = () => {
+    const rows = customers.map(({ segment, ...customer }) => ({
+      ...customer,
+      segment: segments.find(s => s.id === segment)?.label || segment,
+    }));
+    downloadCSV(rows, `${baseName(fileName)}_rfm.csv`);
+  };
+
+  const maxOffset = Math.max(0, ...cohorts.map(cohort => cohort.retention.length));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <ShoppingCart className="h-6 w-6 text-primary" />
+        <div>
+          <h2 className="text-xl font-semibold">{fileName}</h2>
+          <p className="text-sm text-muted-foreground">E-commerce metrics</p>
+        </div>
+      </div>
+
+      {/* Column roles */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-lg">Column Roles</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {editing
+                ? 'Detected from the column names and values. Check them and confirm to compute the metrics.'
+                : 'The columns the metrics below are computed from'}
+            </p>
+          </div>
+          {editing ? (
+            <div className="flex gap-2">
+              {mapping && (
+                <Button variant="ghost" size="sm" onClick={() => { setDraft(null); setIsEditing(false); }}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={confirm} disabled={!roles.revenue}>
+                <Check className="h-4 w-4 mr-2" />
+                Confirm
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {editing ? (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {ECOMMERCE_ROLES.map(role => (
+                <div key={role.id} className="space-y-2">
+                  <Label>
+                    {role.label}
+                    {REQUIRED[role.id] && <span className="ml-1 text-xs text-muted-foreground">for {REQUIRED[role.id]}</span>}
+                  </Label>
+                  <Select value={roles[role.id] || NONE} onValueChange={column => setRole(role.id, column)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None</SelectItem>
+                      {profile.columns.map(column => (
+                        <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {ECOMMERCE_ROLES.filter(role => mapping?.[role.id]).map(role => (
+                <Badge key={role.id} variant="outline" className="text-xs">
+                  {role.label}: {mapping![role.id]}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {mapping && kpis && (
+        <>
+          {/* KPIs */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Kpi label="Revenue" value={formatValue(kpis.revenue)} />
+            <Kpi label="Orders" value={kpis.orders.toLocaleString()} hint={mapping.order_id ? undefined : 'Each row counts as an order'} />
+            <Kpi label="Average order value" value={formatValue(kpis.aov)} />
+            <Kpi label="Customers" value={formatValue(kpis.customers)} />
+            <Kpi label="Profit" value={formatValue(kpis.profit)} hint={mapping.profit ? undefined : 'Revenue minus cost'} />
+            <Kpi label="Margin" value={formatPercent(kpis.margin)} hint="Profit as a share of revenue" />
+            <Kpi label="ROI" value={formatPercent(kpis.roi)} hint="Profit as a share of cost" />
+            <Kpi label="Customer lifetime value" value={formatValue(kpis.ltv)} hint="Revenue per customer to date" />
+          </div>
+          {kpis.customers !== null && (
+            <p className="text-sm text-muted-foreground">
+              Customers placed {kpis.frequency!.toFixed(2)} orders on average; {formatPercent(kpis.repeatRate)} ordered more than once.
+            </p>
+          )}
+
+          {(topProducts.length > 0 || topCategories.length > 0) && (
+            <div className="grid md:grid-cols-2 gap-6">
+              {topProducts.length > 0 && <RevenueChart title="Top Products" data={topProducts} />}
+              {topCategories.length > 0 && <RevenueChart title="Top Categories" data={topCategories} />}
+            </div>
+          )}
+
+          {/* RFM */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-lg">Customer Segments</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Customers scored 1–5 on recency, frequency and spend, relative to the latest order in the data
+                </p>
+              </div>
+              {customers.length > 0 && (
+                <Button variant="outline" size="sm" onClick={exportCustomers}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {segments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Map the customer ID, order date and revenue columns to segment customers.</p>
+              ) : (
+                <div className="grid lg:grid-cols-2 gap-6">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2 font-medium">Segment</th>
+                          <th className="text-right p-2 font-medium">Customers</th>
+                          <th className="text-right p-2 font-medium">Revenue</th>
+                          <th className="text-right p-2 font-medium">Days since order</th>
+                          <th className="text-right p-2 font-medium">Orders</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {segments.map(segment => (
+                          <tr key={segment.id} className="border-b">
+                            <td className="p-2" title={segment.description}>
+                              <div className="font-medium">{segment.label}</div>
+                              <div className="text-xs text-muted-foreground">{segment.description}</div>
+                            </td>
+                            <td className="p-2 text-right">{segment.customers.toLocaleString()}</td>
+                            <td className="p-2 text-right">{formatNumber(segment.revenue)}</td>
+                            <td className="p-2 text-right">{segment.avgRecency.toFixed(0)}</td>
+                            <td className="p-2 text-right">{segment.avgFrequency.toFixed(1)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <ResponsiveContainer width="100%" height={280}>
+                    <BarChart data={segments}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="customers" name="Customers" fill="#8b5cf6" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Cohorts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Cohort Retention</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Customers grouped by the month of their first order, and the share ordering again in each later month
+              </p>
+            </CardHeader>
+            <CardContent>
+              {cohorts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Map the customer ID and order date columns to see retention.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-separate border-spacing-0.5">
+                    <thead>
+                      <tr>
+                        <th className="text-left p-1 font-medium">Cohort</th>
+                        <th className="text-right p-1 font-medium">Customers</th>
+                        {Array.from({ length: maxOffset }, (_, offset) => (
+                          <th key={offset} className="p-1 font-medium w-12">M{offset}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cohorts.map(cohort => (
+                        <tr key={cohort.period}>
+                          <th className="text-left p-1 font-medium whitespace-nowrap">{cohort.label}</th>
+                          <td className="text-right p-1">{cohort.size.toLocaleString()}</td>
+                          {cohort.retention.map((share, offset) => (
+                            <td
+                              key={offset}
+                              className="p-1 text-center rounded-sm"
+                              style={{ backgroundColor: retentionColor(share), color: share > 0.5 ? 'white' : undefined }}
+                              title={`${cohort.label}, month ${offset}: ${formatPercent(share)}`}
+                            >
+                              {Math.round(share * 100)}%
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
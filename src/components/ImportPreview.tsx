@@ -0,0 +1,319 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Upload, AlertCircle, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { previewFile, type FilePreview } from '@/lib/ingest';
+import { isDelimited, hasRowLayout, FORMAT_LABELS, type FileFormat } from '@/lib/formats';
+import {
+  COLUMN_TYPES,
+  DATE_FORMATS,
+  DELIMITERS,
+  ENCODINGS,
+  convertValue,
+  isBlank,
+  type ColumnSpec,
+  type ColumnType,
+  type ImportOptions,
+} from '@/lib/schema';
+
+interface ImportPreviewProps {
+  file: File;
+  format: FileFormat;
+  sheet?: string;
+  onImport: (options: ImportOptions) => void;
+  onBack: () => void;
+}
+
+export function ImportPreview({ file, format, sheet, onImport, onBack }: ImportPreviewProps) {
+  // Undefined delimiter and encoding mean "use what the preview detected"
+  const [settings, setSettings] = useState<Pick<ImportOptions, 'delimiter' | 'encoding' | 'hasHeader' | 'skipRows'>>({
+    hasHeader: true,
+    skipRows: 0,
+  });
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [schema, setSchema] = useState<ColumnSpec[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let stale = false;
+    setIsLoading(true);
+    previewFile(file, format, { ...settings, sheet })
+      .then(next => {
+        if (stale) return;
+        setPreview(next);
+        setError(null);
+        // Keep the user's choices for columns that are still there
+        setSchema(previous => next.schema.map(spec => previous.find(p => p.source === spec.source) || spec));
+      })
+      .catch(error => {
+        if (!stale) setError(error instanceof Error ? error.message : 'Failed to read the file');
+      })
+      .finally(() => {
+        if (!stale) setIsLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [file, format, sheet, settings]);
+
+  const updateSpec = (source: string, changes: Partial<ColumnSpec>) =>
+    setSchema(prev => prev.map(spec => (spec.source === source ? { ...spec, ...changes } : spec)));
+
+  const setType = (source: string, type: ColumnType) =>
+    updateSpec(source, { type, dateFormat: type === 'date' ? schema.find(s => s.source === source)?.dateFormat || DATE_FORMATS[0] : undefined });
+
+  const included = schema.filter(spec => spec.include);
+
+  const names = included.map(spec => spec.name.trim());
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  const validationError =
+    included.length === 0 ? 'Select at least one column to import' :
+    names.includes('') ? 'Every imported column needs a name' :
+    duplicate ? `Column name "${duplicate}" is used more than once` :
+    null;
+
+  const handleImport = () => {
+    onImport({
+      ...settings,
+      sheet,
+      delimiter: settings.delimiter ?? preview?.delimiter,
+      encoding: settings.encoding ?? preview?.encoding,
+      schema: schema.map(spec => ({ ...spec, name: spec.name.trim() })),
+    });
+  };
+
+  const delimiter = settings.delimiter ?? preview?.delimiter;
+  const encoding = settings.encoding ?? preview?.encoding;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-lg flex items-center gap-2 min-w-0">
+            <FileText className="h-5 w-5 text-primary flex-shrink-0" />
+            <span className="truncate">{sheet ? `${file.name} [${sheet}]` : file.name}</span>
+          </CardTitle>
+          <Badge variant="secondary">{FORMAT_LABELS[format]}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Review how the file is read and choose a type for each column before importing.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* File settings */}
+        {hasRowLayout(format) && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {isDelimited(format) && (
+              <>
+                <div>
+                  <Label>Delimiter</Label>
+                  <Select value={delimiter} onValueChange={(value) => setSettings({ ...settings, delimiter: value })}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Detecting..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map(d => (
+                        <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Encoding</Label>
+                  <Select value={encoding} onValueChange={(value) => setSettings({ ...settings, encoding: value })}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Detecting..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENCODINGS.map(e => (
+                        <SelectItem key={e.id} value={e.id}>{e.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div>
+              <Label htmlFor="skip-rows">Skip leading rows</Label>
+              <Input
+                id="skip-rows"
+                type="number"
+                min={0}
+                value={settings.skipRows}
+                onChange={(e) => setSettings({ ...settings, skipRows: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="has-header">First row is header</Label>
+              <div className="h-10 flex items-center mt-1">
+                <Switch
+                  id="has-header"
+                  checked={settings.hasHeader}
+                  onCheckedChange={(hasHeader) => setSettings({ ...settings, hasHeader })}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-md p-3 flex items-start gap-2 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Column types */}
+        {schema.length > 0 && (
+          <div className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+            <h4 className="font-medium mb-2">Columns</h4>
+            <div className="overflow-x-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="p-2 w-10"></th>
+                    <th className="text-left p-2 font-medium">Source</th>
+                    <th className="text-left p-2 font-medium">Name</th>
+                    <th className="text-left p-2 font-medium">Type</th>
+                    <th className="text-left p-2 font-medium">Date format</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schema.map(spec => (
+                    <tr key={spec.source} className={`border-b ${spec.include ? '' : 'text-muted-foreground'}`}>
+                      <td className="p-2 text-center">
+                        <Checkbox
+                          checked={spec.include}
+                          onCheckedChange={(checked) => updateSpec(spec.source, { include: checked === true })}
+                          aria-label={`Import ${spec.source}`}
+                        />
+                      </td>
+                      <td className="p-2 font-mono text-xs truncate max-w-40">{spec.source}</td>
+                      <td className="p-2">
+                        <Input
+                          value={spec.name}
+                          onChange={(e) => updateSpec(spec.source, { name: e.target.value })}
+                          disabled={!spec.include}
+                          className="h-8"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={spec.type}
+                          onValueChange={(value) => setType(spec.source, value as ColumnType)}
+                          disabled={!spec.include}
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COLUMN_TYPES.map(t => (
+                              <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2">
+                        {spec.type === 'date' && (
+                          <Select
+                            value={spec.dateFormat}
+                            onValueChange={(dateFormat) => updateSpec(spec.source, { dateFormat })}
+                            disabled={!spec.include}
+                          >
+                            <SelectTrigger className="h-8 w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DATE_FORMATS.map(f => (
+                                <SelectItem key={f} value={f}>{f}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Types suggested from the first {preview.sampleSize.toLocaleString()} rows
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Converted rows */}
+        {preview && included.length > 0 && (
+          <div className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+            <h4 className="font-medium mb-2">Preview (first {preview.rows.length} rows)</h4>
+            <div className="overflow-x-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    {included.map(spec => (
+                      <th key={spec.source} className="text-left p-2 font-medium whitespace-nowrap">
+                        {spec.name}
+                        <span className="ml-1 text-xs font-normal text-muted-foreground">{spec.type}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row, i) => (
+                    <tr key={i} className="border-b">
+                      {included.map(spec => {
+                        const raw = row[spec.source];
+                        const value = convertValue(raw, spec);
+                        // Values that do not fit the chosen type are imported as empty
+                        const failed = value === null && !isBlank(raw);
+                        return (
+                          <td
+                            key={spec.source}
+                            className={`p-2 truncate max-w-48 font-mono text-xs ${failed ? 'text-destructive line-through' : ''}`}
+                            title={failed ? `"${String(raw)}" is not a valid ${spec.type}` : undefined}
+                          >
+                            {failed ? String(raw) : value === null ? <span className="text-muted-foreground">NULL</span> : String(value)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && preview && preview.rows.length === 0 && !error && (
+          <p className="text-sm text-muted-foreground">No rows found with these settings.</p>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-4">
+            {validationError && schema.length > 0 && (
+              <span className="text-sm text-destructive">{validationError}</span>
+            )}
+            <Button onClick={handleImport} disabled={isLoading || !!error || !!validationError}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import {included.length} {included.length === 1 ? 'column' : 'columns'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { Sparkles } from 'lucide-react';
+import { BarChart, Bar, Cell, LineChart, Line, ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { INSIGHT_KINDS, type Insight, type InsightChart } from '@/lib/insights';
+import type { DatasetProfile } from '@/lib/profile';
+
+interface InsightsPanelProps {
+  /** Carries the insights, found by the profile worker */
+  profile: DatasetProfile;
+  /** Opens the drill-down for a column the finding is about */
+  onSelectColumn?: (column: string) => void;
+}
+
+const kindLabel = (insight: Insight) => INSIGHT_KINDS.find(k => k.id === insight.kind)!.label;
+
+function MiniChart({ chart }: { chart: InsightChart }) {
+  switch (chart.type) {
+    case 'line':
+      return (
+        <ResponsiveContainer width="100%" height={96}>
+          <LineChart data={chart.data}>
+            <XAxis dataKey="name" hide />
+            <YAxis hide domain={['auto', 'auto']} />
+            <Tooltip />
+            <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+            {chart.highlight !== undefined && (
+              <Line
+                dataKey={point => (point.name === chart.highlight ? point.value : null)}
+                name="Change"
+                stroke="none"
+                dot={{ r: 4, fill: '#ef4444', stroke: '#ef4444' }}
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      );
+    case 'scatter':
+      return (
+        <ResponsiveContainer width="100%" height={96}>
+          <ScatterChart>
+            <XAxis dataKey="name" type="number" hide domain={['auto', 'auto']} />
+            <YAxis dataKey="value" type="number" hide domain={['auto', 'auto']} />
+            <Scatter data={chart.data} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+    default:
+      return (
+        <ResponsiveContainer width="100%" height={96}>
+          <BarChart data={chart.data}>
+            <XAxis dataKey="name" tick={{ fontSize: 9 }} interval={0} tickFormatter={name => String(name).slice(0, 8)} />
+            <Tooltip />
+            <Bar dataKey="value" isAnimationActive={false}>
+              {chart.data.map(point => (
+                <Cell key={String(point.name)} fill={point.name === chart.highlight ? '#8b5cf6' : '#94a3b8'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      );
+  }
+}
+
+export function InsightsPanel({ profile, onSelectColumn }: InsightsPanelProps) {
+  const { insights } = profile;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-primary" />
+          Insights
+          {insights.length > 0 && <Badge variant="secondary" className="ml-1">{insights.length}</Badge>}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">The most notable patterns found in the data, strongest first</p>
+      </CardHeader>
+      <CardContent>
+        {insights.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing stands out yet: no dominant categories, strong correlations, trends or concentrations were found.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {insights.map(insight => (
+              <div key={insight.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className="text-xs">{kindLabel(insight)}</Badge>
+                  <span className="text-xs text-muted-foreground" title="How notable the finding is">
+                    {Math.round(insight.score * 100)}
+                  </span>
+                </div>
+                <h3 className="text-sm font-medium">{insight.title}</h3>
+                <MiniChart chart={insight.chart} />
+                <p className="text-xs text-muted-foreground">{insight.narrative}</p>
+                {onSelectColumn && (
+                  <div className="flex flex-wrap gap-1">
+                    {insight.columns.map(column => (
+                      <button key={column} type="button" onClick={() => onSelectColumn(column)}>
+                        <Badge variant="secondary" className="text-xs cursor-pointer hover:bg-muted">{column}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
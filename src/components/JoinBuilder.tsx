@@ -0,0 +1,218 @@
+import { useState, useRef, useEffect } from 'react';
+import { GitMerge, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { runJoin, JOIN_TYPES, type JoinJob, type JoinKey, type JoinType } from '@/lib/join';
+import type { ColumnarTable } from '@/lib/columnar';
+import { getColumns, type Dataset } from '@/lib/workspace';
+
+interface JoinBuilderProps {
+  datasets: Dataset[];
+  activeId: string;
+  onCreate: (name: string, table: ColumnarTable, derivedFrom: string) => void;
+}
+
+// Suggests key pairs from columns that share a name, e.g. customer_id on both sides
+const suggestKeys = (left?: Dataset, right?: Dataset): JoinKey[] => {
+  if (!left || !right) return [{ left: '', right: '' }];
+  const rightColumns = new Set(getColumns(right));
+  const shared = getColumns(left).filter(col => rightColumns.has(col));
+  const key = shared.find(col => /id$/i.test(col)) || shared[0];
+  return [key ? { left: key, right: key } : { left: '', right: '' }];
+};
+
+export function JoinBuilder({ datasets, activeId, onCreate }: JoinBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [type, setType] = useState<JoinType>('inner');
+  const [keys, setKeys] = useState<JoinKey[]>([]);
+  const [name, setName] = useState('');
+  const [joining, setJoining] = useState(false);
+  const jobRef = useRef<JoinJob | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const left = datasets.find(d => d.id === leftId);
+  const right = datasets.find(d => d.id === rightId);
+
+  const selectPair = (nextLeft?: Dataset, nextRight?: Dataset) => {
+    setLeftId(nextLeft?.id || '');
+    setRightId(nextRight?.id || '');
+    setKeys(suggestKeys(nextLeft, nextRight));
+    setName(nextLeft && nextRight ? `${nextLeft.tableName}_${nextRight.tableName}` : '');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Closing the dialog abandons a join in progress
+    if (!nextOpen) {
+      jobRef.current?.cancel();
+      jobRef.current = null;
+      setJoining(false);
+    }
+    // Start from the active dataset joined with the next one in the workspace
+    if (nextOpen) {
+      const active = datasets.find(d => d.id === activeId) || datasets[0];
+      selectPair(active, datasets.find(d => d.id !== active?.id));
+      setType('inner');
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateKey = (index: number, changes: Partial<JoinKey>) =>
+    setKeys(prev => prev.map((key, i) => (i === index ? { ...key, ...changes } : key)));
+
+  const canJoin = left && right && name.trim() !== '' && keys.length > 0 && keys.every(k => k.left && k.right);
+
+  const handleJoin = async () => {
+    if (!left || !right) return;
+    const job = runJoin(left.data, right.data, { type, keys, rightName: right.tableName });
+    jobRef.current = job;
+    setJoining(true);
+    try {
+      const table = await job.promise;
+      const label = JOIN_TYPES.find(t => t.id === type)!.label.toLowerCase();
+      onCreate(name.trim(), table, `${left.name} ${label} join ${right.name}`);
+      toast({
+        title: "Join Created",
+        description: `${name.trim()} has ${table.rowCount.toLocaleString()} rows`,
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Join Failed",
+        description: error instanceof Error ? error.message : "Could not join the datasets",
+        variant: "destructive"
+      });
+    } finally {
+      jobRef.current = null;
+      setJoining(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={datasets.length < 2}>
+          <GitMerge className="h-4 w-4 mr-2" />
+          Join
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Join Datasets</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Left dataset</Label>
+              <Select value={leftId} onValueChange={(id) => selectPair(datasets.find(d => d.id === id), right)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Choose dataset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {datasets.map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Right dataset</Label>
+              <Select value={rightId} onValueChange={(id) => selectPair(left, datasets.find(d => d.id === id))}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Choose dataset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {datasets.map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Join type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as JoinType)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {JOIN_TYPES.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{JOIN_TYPES.find(t => t.id === type)?.description}</p>
+          </div>
+
+          <div>
+            <Label>Key columns</Label>
+            <div className="space-y-2 mt-1">
+              {keys.map((key, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Select value={key.left} onValueChange={(value) => updateKey(i, { left: value })} disabled={!left}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Left column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {left && getColumns(left).map(col => (
+                        <SelectItem key={col} value={col}>{col}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">=</span>
+                  <Select value={key.right} onValueChange={(value) => updateKey(i, { right: value })} disabled={!right}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Right column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {right && getColumns(right).map(col => (
+                        <SelectItem key={col} value={col}>{col}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setKeys(keys.filter((_, j) => j !== i))}
+                    disabled={keys.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setKeys([...keys, { left: '', right: '' }])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add key
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="join-name">New dataset name</Label>
+            <Input id="join-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+            {right && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Right columns that clash with left columns are prefixed with "{right.tableName}."
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleJoin} disabled={!canJoin || joining}>
+              {joining ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+              {joining ? 'Joining...' : 'Create Dataset'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Settings, Eye, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { PROVIDERS, DEFAULT_SETTINGS, type LLMSettings, type ProviderId } from '@/lib/chat/settings';
+import { PRIVACY_MODES, type PrivacyMode } from '@/lib/pii';
+
+interface ModelSettingsDialogProps {
+  settings: LLMSettings;
+  onSave: (settings: LLMSettings) => void;
+  onReset: () => void;
+}
+
+export function ModelSettingsDialog({ settings, onSave, onReset }: ModelSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const [showApiKey, setShowApiKey] = useState(false);
+
+  const update = (changes: Partial<LLMSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Every time the dialog opens it starts from the saved settings
+    if (nextOpen) setDraft(settings);
+    setOpen(nextOpen);
+  };
+
+  const provider = PROVIDERS.find(p => p.id === draft.provider);
+  const privacy = PRIVACY_MODES.find(m => m.id === draft.privacy);
+  const isOffline = draft.provider === 'offline';
+  const canSave = draft.provider !== 'openai' || draft.apiKey.trim() !== '';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings className="h-4 w-4 mr-2" />
+          Model
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Provider</Label>
+            <Select value={draft.provider} onValueChange={(value) => update({ provider: value as ProviderId })}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{provider?.description}</p>
+          </div>
+
+          {draft.provider === 'openai-compatible' && (
+            <div>
+              <Label htmlFor="base-url">Base URL</Label>
+              <Input
+                id="base-url"
+                value={draft.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder={DEFAULT_SETTINGS.baseUrl}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          {!isOffline && (
+            <div>
+              <Label htmlFor="api-key">
+                API Key{draft.provider === 'openai-compatible' && ' (optional)'}
+              </Label>
+              <div className="flex gap-2 mt-1">
+                <Input
+                  id="api-key"
+                  type={showApiKey ? 'text' : 'password'}
+                  value={draft.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  placeholder="sk-..."
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowApiKey(!showApiKey)}
+                >
+                  {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Your settings and API key are stored locally in your browser
+              </p>
+            </div>
+          )}
+
+          {!isOffline && (
+            <>
+              <div>
+                <Label htmlFor="model">Model</Label>
+                <Input
+                  id="model"
+                  value={draft.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  placeholder={DEFAULT_SETTINGS.model}
+                  className="mt-1"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Temperature: {draft.temperature.toFixed(1)}</Label>
+                  <Slider
+                    value={[draft.temperature]}
+                    onValueChange={([value]) => update({ temperature: value })}
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    className="mt-3"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="max-tokens">Max tokens</Label>
+                  <Input
+                    id="max-tokens"
+                    type="number"
+                    min={1}
+                    value={draft.maxTokens}
+                    onChange={(e) => update({ maxTokens: Math.max(1, Number(e.target.value) || DEFAULT_SETTINGS.maxTokens) })}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Personal data</Label>
+                <Select value={draft.privacy} onValueChange={(value) => update({ privacy: value as PrivacyMode })}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRIVACY_MODES.map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {privacy?.description}. Applies to columns flagged in any table, to query results computed from them and to their values wherever they appear; SQL always runs on the real values.
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              variant="outline"
+              onClick={() => {
+                onReset();
+                setDraft(DEFAULT_SETTINGS);
+              }}
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={() => {
+                onSave({ ...draft, model: draft.model.trim() || DEFAULT_SETTINGS.model });
+                setOpen(false);
+              }}
+              disabled={!canSave}
+            >
+              Save
+            </Button>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            <p>Without a configured model, the offline stub answers using local tools only.</p>
+            <p className="mt-1">Get an OpenAI API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">OpenAI's platform</a>.</p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,420 @@
+import { useMemo, useState } from 'react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, Download, Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAnalysis } from '@/hooks/use-analysis';
+import { downloadCSV } from '@/lib/csv';
+import { GRANULARITIES, formatPeriod, type Granularity } from '@/lib/dates';
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  DEFAULT_OUTLIER_SETTINGS,
+  OUTLIER_METHODS,
+  rowsInPeriods,
+  type AnomalyOptions,
+  type ColumnOutliers,
+  type OutlierMethod,
+  type OutlierSettings,
+  type SeriesPoint,
+} from '@/lib/outliers';
+import { formatNumber } from '@/lib/utils';
+import type { DatasetProfile } from '@/lib/profile';
+
+interface OutlierPanelProps {
+  data: Record<string, unknown>[];
+  profile: DatasetProfile;
+  fileName: string;
+  /** Adds a derived dataset to the workspace; filtering is unavailable without it */
+  onCreateDataset?: (name: string, data: Record<string, unknown>[], derivedFrom: string) => void;
+}
+
+const ALL_COLUMNS = '__all__';
+const SHOWN_ROWS = 50;
+const OTHER_COLUMNS = 4;
+const NO_OUTLIERS: ColumnOutliers[] = [];
+const NO_SERIES: SeriesPoint[] = [];
+
+const baseName = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '');
+
+export function OutlierPanel({ data, profile, fileName, onCreateDataset }: OutlierPanelProps) {
+  const [settings, setSettings] = useState<OutlierSettings>(DEFAULT_OUTLIER_SETTINGS);
+  const [chosenColumn, setChosenColumn] = useState(ALL_COLUMNS);
+  const [chosenDate, setChosenDate] = useState('');
+  const [chosenMetric, setChosenMetric] = useState('');
+  const [anomalyOptions, setAnomalyOptions] = useState<AnomalyOptions>(DEFAULT_ANOMALY_OPTIONS);
+  const { toast } = useToast();
+
+  const numericColumns = useMemo(() => profile.columns.filter(c => c.type === 'numeric'), [profile]);
+  const dateColumns = useMemo(() => profile.columns.filter(c => c.type === 'date').map(c => c.name), [profile]);
+
+  // Choices fall back to sensible defaults when the dataset changes under them
+  const dateColumn = dateColumns.includes(chosenDate) ? chosenDate : dateColumns[0] || '';
+  const metric = numericColumns.some(c => c.name === chosenMetric)
+    ? chosenMetric
+    : numericColumns.find(c => !/(^|_)id$/i.test(c.name))?.name || numericColumns[0]?.name || '';
+
+  const outlierRequest = useMemo(() => ({ kind: 'outliers' as const, columns: numericColumns, settings }), [numericColumns, settings]);
+  const outlierScan = useAnalysis(data, outlierRequest);
+  const outliers = outlierScan.result || NO_OUTLIERS;
+  const flaggedBy = useMemo(() => new Map(outliers.map(o => [o.column, new Set(o.rows)])), [outliers]);
+  const selectedColumn = flaggedBy.has(chosenColumn) ? chosenColumn : ALL_COLUMNS;
+
+  // Row indexes flagged by the selected column, or by any column
+  const flaggedRows = useMemo(() => {
+    if (selectedColumn !== ALL_COLUMNS) return outliers.find(o => o.column === selectedColumn)!.rows;
+    const union = new Set<number>();
+    outliers.forEach(o => o.rows.forEach(index => union.add(index)));
+    return [...union].sort((a, b) => a - b);
+  }, [outliers, selectedColumn]);
+
+  const anomalyRequest = useMemo(
+    () => (dateColumn && metric ? { kind: 'anomalies' as const, dateColumn, metric, options: anomalyOptions } : null),
+    [dateColumn, metric, anomalyOptions]
+  );
+  const anomalyScan = useAnalysis(data, anomalyRequest);
+  const series = anomalyScan.result || NO_SERIES;
+  const anomalies = series.filter(point => point.anomaly);
+
+  if (numericColumns.length === 0) return null;
+
+  const threshold = settings.method === 'iqr' ? settings.iqrMultiplier : settings.zThreshold;
+  const setThreshold = (value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    setSettings(prev => (prev.method === 'iqr' ? { ...prev, iqrMultiplier: value } : { ...prev, zThreshold: value }));
+  };
+  const methodLabel = settings.method === 'iqr' ? `IQR × ${settings.iqrMultiplier}` : `z > ${settings.zThreshold}`;
+
+  const flaggedColumns = selectedColumn === ALL_COLUMNS ? outliers.filter(o => o.rows.length > 0).map(o => o.column) : [selectedColumn];
+  const otherColumns = profile.columns.map(c => c.name).filter(c => !flaggedColumns.includes(c)).slice(0, OTHER_COLUMNS);
+  const scope = selectedColumn === ALL_COLUMNS ? 'any column' : selectedColumn;
+
+  const createWithout = (indexes: number[], name: string, derivedFrom: string) => {
+    if (!onCreateDataset) return;
+    const excluded = new Set(indexes);
+    const rows = data.filter((_, i) => !excluded.has(i));
+    onCreateDataset(name, rows, derivedFrom);
+    toast({
+      title: "Dataset Created",
+      description: `${name} has ${rows.length.toLocaleString()} rows (${excluded.size.toLocaleString()} removed)`,
+    });
+  };
+
+  const exportOutliers = () => {
+    const rows = flaggedRows.map(index => ({
+      row: index + 1,
+      outlier_in: outliers.filter(o => flaggedBy.get(o.column)!.has(index)).map(o => o.column).join('; '),
+      ...data[index],
+    }));
+    downloadCSV(rows, `${baseName(fileName)}_outliers.csv`);
+  };
+
+  const exportAnomalies = () => {
+    downloadCSV(
+      anomalies.map(point => ({
+        period: formatPeriod(point.time, anomalyOptions.granularity),
+        [metric]: point.value,
+        expected: point.expected,
+        score: point.score,
+      })),
+      `${baseName(fileName)}_${metric}_anomalies.csv`
+    );
+  };
+
+  const chartData = series.map(point => ({
+    name: formatPeriod(point.time, anomalyOptions.granularity),
+    value: point.value,
+    expected: point.expected,
+    anomaly: point.anomaly ? point.value : null,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-primary" />
+          Outliers & Anomalies
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Method</Label>
+              <Select value={settings.method} onValueChange={value => setSettings(prev => ({ ...prev, method: value as OutlierMethod }))}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OUTLIER_METHODS.map(m => (
+                    <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{settings.method === 'iqr' ? 'IQR multiplier' : 'Z-score threshold'}</Label>
+              <Input
+                key={settings.method}
+                type="number"
+                min={0.1}
+                step={0.1}
+                defaultValue={threshold}
+                onChange={e => setThreshold(Number(e.target.value))}
+                className="w-28"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Column</th>
+                  <th className="text-right p-2 font-medium">Lower bound</th>
+                  <th className="text-right p-2 font-medium">Upper bound</th>
+                  <th className="text-right p-2 font-medium">Outliers</th>
+                  <th className="text-right p-2 font-medium">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...outliers].sort((a, b) => b.rows.length - a.rows.length).map(o => (
+                  <tr
+                    key={o.column}
+                    className={`border-b cursor-pointer hover:bg-muted/50 ${selectedColumn === o.column ? 'bg-muted' : ''}`}
+                    onClick={() => setChosenColumn(selectedColumn === o.column ? ALL_COLUMNS : o.column)}
+                  >
+                    <td className="p-2 font-medium truncate max-w-40">{o.column}</td>
+                    <td className="p-2 text-right">{formatNumber(o.lower)}</td>
+                    <td className="p-2 text-right">{formatNumber(o.upper)}</td>
+                    <td className={`p-2 text-right ${o.rows.length > 0 ? 'text-destructive font-medium' : ''}`}>
+                      {o.rows.length.toLocaleString()}
+                    </td>
+                    <td className="p-2 text-right text-muted-foreground">
+                      {(o.rows.length / data.length * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {outlierScan.result && outliers.length < numericColumns.length && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Columns without any spread ({numericColumns.length - outliers.length}) are not checked
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="text-sm font-medium">
+                {outlierScan.error
+                  ? `Outlier scan failed: ${outlierScan.error}`
+                  : outlierScan.pending && !outlierScan.result
+                    ? 'Scanning rows for outliers...'
+                    : `${flaggedRows.length.toLocaleString()} rows flagged in ${scope} (${methodLabel})`}
+              </h3>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={exportOutliers} disabled={flaggedRows.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+                {onCreateDataset && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={flaggedRows.length === 0}
+                    onClick={() => createWithout(
+                      flaggedRows,
+                      `${baseName(fileName)} without outliers`,
+                      `${fileName} without outliers in ${scope} (${methodLabel})`
+                    )}
+                  >
+                    <Filter className="h-4 w-4 mr-2" />
+                    Remove into new dataset
+                  </Button>
+                )}
+              </div>
+            </div>
+            {flaggedRows.length > 0 && (
+              <div className="overflow-x-auto max-h-72 overflow-y-auto border rounded-md">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b">
+                      <th className="text-right p-2 font-medium">Row</th>
+                      {flaggedColumns.map(col => (
+                        <th key={col} className="text-right p-2 font-medium text-destructive">{col}</th>
+                      ))}
+                      {otherColumns.map(col => (
+                        <th key={col} className="text-left p-2 font-medium">{col}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {flaggedRows.slice(0, SHOWN_ROWS).map(index => (
+                      <tr key={index} className="border-b">
+                        <td className="p-2 text-right text-muted-foreground">{index + 1}</td>
+                        {flaggedColumns.map(col => {
+                          const isFlagged = flaggedBy.get(col)?.has(index);
+                          return (
+                            <td key={col} className={`p-2 text-right ${isFlagged ? 'text-destructive font-medium' : ''}`}>
+                              {String(data[index][col] ?? '—')}
+                            </td>
+                          );
+                        })}
+                        {otherColumns.map(col => (
+                          <td key={col} className="p-2 truncate max-w-32">{String(data[index][col] ?? '—')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {flaggedRows.length > SHOWN_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {SHOWN_ROWS} of {flaggedRows.length.toLocaleString()} rows; export to see them all
+              </p>
+            )}
+          </div>
+        </div>
+
+        {dateColumns.length > 0 && (
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium">Time-Series Anomalies</h3>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Date</Label>
+                <Select value={dateColumn} onValueChange={setChosenDate}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateColumns.map(col => (
+                      <SelectItem key={col} value={col}>{col}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Metric (sum)</Label>
+                <Select value={metric} onValueChange={setChosenMetric}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {numericColumns.map(col => (
+                      <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Period</Label>
+                <Select
+                  value={anomalyOptions.granularity}
+                  onValueChange={value => setAnomalyOptions(prev => ({ ...prev, granularity: value as Granularity }))}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GRANULARITIES.map(g => (
+                      <SelectItem key={g.id} value={g.id}>{g.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Sensitivity (robust z)</Label>
+                <Input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  defaultValue={anomalyOptions.threshold}
+                  onChange={e => {
+                    const value = Number(e.target.value);
+                    if (Number.isFinite(value) && value > 0) setAnomalyOptions(prev => ({ ...prev, threshold: value }));
+                  }}
+                  className="w-28"
+                />
+              </div>
+            </div>
+
+            {series.length > 0 && (
+              <ResponsiveContainer width="100%" height={260}>
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="value" name={metric} stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="expected" name="Expected" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                  <Line dataKey="anomaly" name="Anomaly" stroke="none" dot={{ r: 4, fill: '#ef4444', stroke: '#ef4444' }} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {anomalyScan.error
+                  ? `Anomaly scan failed: ${anomalyScan.error}`
+                  : anomalyScan.pending && !anomalyScan.result
+                    ? 'Scanning rows for anomalies...'
+                    : `${anomalies.length.toLocaleString()} anomalous ${anomalies.length === 1 ? 'period' : 'periods'} out of ${series.length.toLocaleString()}`}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={exportAnomalies} disabled={anomalies.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+                {onCreateDataset && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={anomalies.length === 0}
+                    onClick={() => createWithout(
+                      rowsInPeriods(data, dateColumn, new Set(anomalies.map(a => a.time)), anomalyOptions.granularity),
+                      `${baseName(fileName)} without ${metric} anomalies`,
+                      `${fileName} without anomalous ${anomalyOptions.granularity}s of ${metric}`
+                    )}
+                  >
+                    <Filter className="h-4 w-4 mr-2" />
+                    Remove into new dataset
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {anomalies.length > 0 && (
+              <div className="overflow-x-auto max-h-60 overflow-y-auto border rounded-md">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b">
+                      <th className="text-left p-2 font-medium">Period</th>
+                      <th className="text-right p-2 font-medium">{metric}</th>
+                      <th className="text-right p-2 font-medium">Expected</th>
+                      <th className="text-right p-2 font-medium">Score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {anomalies.map(point => (
+                      <tr key={point.time} className="border-b">
+                        <td className="p-2">{formatPeriod(point.time, anomalyOptions.granularity)}</td>
+                        <td className="p-2 text-right text-destructive font-medium">{formatNumber(point.value)}</td>
+                        <td className="p-2 text-right">{point.expected === null ? '—' : formatNumber(point.expected)}</td>
+                        <td className="p-2 text-right">{point.score === null ? '—' : point.score.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
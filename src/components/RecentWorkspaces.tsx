@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { listWorkspaces, deleteWorkspace, type WorkspaceRecord } from '@/lib/storage';
+
+interface RecentWorkspacesProps {
+  /** The open workspace, which is not listed */
+  currentId: string | null;
+  onOpen: (record: WorkspaceRecord) => Promise<void>;
+}
+
+export function RecentWorkspaces({ currentId, onOpen }: RecentWorkspacesProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceRecord[]>([]);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const refresh = useCallback(() => {
+    listWorkspaces()
+      .then(setWorkspaces)
+      .catch(error => console.error('Failed to list saved workspaces:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleOpen = async (record: WorkspaceRecord) => {
+    setOpeningId(record.id);
+    try {
+      await onOpen(record);
+    } catch (error) {
+      toast({
+        title: "Error Opening Workspace",
+        description: error instanceof Error ? error.message : "Failed to restore the saved workspace",
+        variant: "destructive"
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDelete = async (record: WorkspaceRecord) => {
+    try {
+      await deleteWorkspace(record.id, record.datasets.map(d => d.id));
+      refresh();
+    } catch (error) {
+      console.error('Failed to delete workspace:', error);
+    }
+  };
+
+  const shown = workspaces.filter(w => w.id !== currentId);
+  if (shown.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Recent Workspaces
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {shown.map(workspace => (
+          <div key={workspace.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{workspace.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {workspace.datasets.length} {workspace.datasets.length === 1 ? 'dataset' : 'datasets'}
+                {' · '}{workspace.messages.length} chat messages
+                {' · '}updated {formatDistanceToNow(workspace.updatedAt, { addSuffix: true })}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(workspace)}
+                disabled={openingId !== null}
+                title="Delete workspace"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleOpen(workspace)} disabled={openingId !== null}>
+                {openingId === workspace.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                )}
+                Open
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useRef, useState, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onRun: () => void;
+  /** Table and column names offered by autocomplete */
+  completions: string[];
+  className?: string;
+}
+
+const KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'AS', 'AND', 'OR', 'NOT',
+  'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'DISTINCT', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS',
+  'ON', 'USING', 'UNION', 'ALL', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'ASC', 'DESC', 'WITH', 'CAST',
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'ROUND', 'COALESCE', 'STRFTIME', 'DATE', 'SUBSTR', 'LENGTH', 'LOWER',
+  'UPPER', 'TRIM', 'OVER', 'PARTITION', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP', 'TABLE', 'VIEW', 'EXISTS',
+];
+const KEYWORD_SET = new Set(KEYWORDS);
+
+const TOKEN_PATTERN = /(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^']|'')*'?)|("(?:[^"]|"")*"?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_]\w*)|([\s\S])/g;
+
+const highlight = (sql: string) => {
+  const tokens: { text: string; className?: string }[] = [];
+  for (const match of sql.matchAll(TOKEN_PATTERN)) {
+    const [text, comment, string, identifier, number, word] = match;
+    if (comment) tokens.push({ text, className: 'text-muted-foreground italic' });
+    else if (string) tokens.push({ text, className: 'text-chart-3' });
+    else if (identifier) tokens.push({ text, className: 'text-chart-4' });
+    else if (number) tokens.push({ text, className: 'text-chart-5' });
+    else if (word && KEYWORD_SET.has(word.toUpperCase())) tokens.push({ text, className: 'text-primary font-semibold' });
+    else tokens.push({ text });
+  }
+  return tokens;
+};
+
+const quoteIfNeeded = (name: string) => (/^[A-Za-z_]\w*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`);
+
+export function SqlEditor({ value, onChange, onRun, completions, className }: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const tokens = useMemo(() => highlight(value), [value]);
+
+  // The partial word directly before the caret drives the suggestion list
+  const prefix = useMemo(() => {
+    const match = value.slice(0, caret).match(/[A-Za-z_]\w*$/);
+    return match ? match[0] : '';
+  }, [value, caret]);
+
+  const suggestions = useMemo(() => {
+    if (!prefix || dismissed) return [];
+    const lower = prefix.toLowerCase();
+    const candidates = [...new Set([...completions, ...KEYWORDS])];
+    return candidates
+      .filter(name => name.toLowerCase().startsWith(lower) && name.toLowerCase() !== lower)
+      .slice(0, 8);
+  }, [prefix, completions, dismissed]);
+
+  const caretPosition = useMemo(() => {
+    const lines = value.slice(0, caret).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length - prefix.length };
+  }, [value, caret, prefix]);
+
+  const updateCaret = () => {
+    setCaret(textareaRef.current?.selectionStart ?? 0);
+  };
+
+  const insertAt = (start: number, end: number, text: string) => {
+    onChange(value.slice(0, start) + text + value.slice(end));
+    const position = start + text.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.setSelectionRange(position, position);
+      setCaret(position);
+    });
+  };
+
+  const acceptSuggestion = (name: string) => {
+    insertAt(caret - prefix.length, caret, quoteIfNeeded(name));
+    setSelectedIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onRun();
+      return;
+    }
+
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setSelectedIndex((selectedIndex + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setSelectedIndex((selectedIndex - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(selectedIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissed(true);
+        return;
+      }
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      insertAt(selectionStart, selectionEnd, '  ');
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+    setScrollTop(e.currentTarget.scrollTop);
+  };
+
+  const sharedClasses = 'absolute inset-0 m-0 p-3 font-mono text-sm leading-6 whitespace-pre overflow-auto';
+
+  return (
+    <div className={cn('relative rounded-md border bg-background', className)}>
+      <pre ref={highlightRef} aria-hidden className={cn(sharedClasses, 'pointer-events-none')}>
+        {tokens.map((token, i) => (
+          <span key={i} className={token.className}>{token.text}</span>
+        ))}
+        {/* Keeps the last line's height when the text ends with a newline */}
+        {'\n'}
+      </pre>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        spellCheck={false}
+        wrap="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setDismissed(false);
+          setSelectedIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCaret}
+        onClick={updateCaret}
+        onScroll={handleScroll}
+        onBlur={() => setDismissed(true)}
+        className={cn(sharedClasses, 'resize-none bg-transparent text-transparent caret-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md')}
+        placeholder="SELECT * FROM df LIMIT 100"
+      />
+
+      {suggestions.length > 0 && (
+        <ul
+          className="absolute z-10 min-w-40 rounded-md border bg-popover text-popover-foreground shadow-md py-1 text-sm font-mono"
+          style={{
+            top: `calc(${caretPosition.line} * 1.5rem + 0.75rem - ${scrollTop}px)`,
+            left: `calc(${caretPosition.column}ch + 0.75rem)`,
+          }}
+        >
+          {suggestions.map((name, i) => (
+            <li
+              key={name}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptSuggestion(name);
+              }}
+              className={cn('px-3 py-0.5 cursor-pointer', i === selectedIndex && 'bg-accent text-accent-foreground')}
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
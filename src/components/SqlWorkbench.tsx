@@ -0,0 +1,216 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Play, Square, Download, Table as TableIcon, ChevronLeft, ChevronRight, AlertCircle, Terminal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { runQuery, cancelQueries, getSchema, type QueryResult, type TableSchema } from '@/lib/sql';
+import { downloadCSV } from '@/lib/csv';
+import { SqlEditor } from './SqlEditor';
+
+interface SqlWorkbenchProps {
+  data: Record<string, unknown>[];
+  fileName: string;
+}
+
+const PAGE_SIZE = 50;
+
+export function SqlWorkbench({ data, fileName }: SqlWorkbenchProps) {
+  const [sql, setSql] = useState('SELECT * FROM df LIMIT 100');
+  const [schema, setSchema] = useState<TableSchema[]>([]);
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [elapsed, setElapsed] = useState<number | null>(null);
+  const [page, setPage] = useState(0);
+
+  const refreshSchema = useCallback(() => {
+    getSchema()
+      .then(setSchema)
+      .catch(error => console.error('Failed to read schema:', error));
+  }, []);
+
+  useEffect(() => {
+    refreshSchema();
+  }, [data, refreshSchema]);
+
+  const completions = useMemo(
+    () => schema.flatMap(table => [table.name, ...table.columns.map(col => col.name)]),
+    [schema]
+  );
+
+  const handleRun = async () => {
+    if (!sql.trim() || isRunning) return;
+
+    setIsRunning(true);
+    setError(null);
+    const start = performance.now();
+    try {
+      const queryResult = await runQuery(sql);
+      setResult(queryResult);
+      setPage(0);
+      // Statements like CREATE VIEW change the schema
+      refreshSchema();
+    } catch (error) {
+      setResult(null);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setElapsed(performance.now() - start);
+      setIsRunning(false);
+    }
+  };
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.rowCount / PAGE_SIZE)) : 0;
+  const pageRows = result ? result.rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Terminal className="h-6 w-6 text-primary" />
+        <div>
+          <h2 className="text-xl font-semibold">SQL Workbench</h2>
+          <p className="text-sm text-muted-foreground">Query {fileName} directly with SQLite</p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-[240px_1fr] gap-6">
+        {/* Schema */}
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-lg">Schema</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {schema.length === 0 && (
+              <p className="text-sm text-muted-foreground">Loading tables...</p>
+            )}
+            {schema.map(table => (
+              <div key={table.name}>
+                <div className="flex items-center gap-2 mb-2 font-medium text-sm">
+                  <TableIcon className="h-4 w-4 text-primary" />
+                  <span className="font-mono">{table.name}</span>
+                </div>
+                <div className="space-y-1 pl-6">
+                  {table.columns.map(col => (
+                    <div key={col.name} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-mono truncate" title={col.name}>{col.name}</span>
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">{col.type}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6 min-w-0">
+          {/* Editor */}
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <SqlEditor value={sql} onChange={setSql} onRun={handleRun} completions={completions} className="h-48" />
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Ctrl+Enter to run · Tab to accept a suggestion</p>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={cancelQueries} disabled={!isRunning}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                  <Button onClick={handleRun} disabled={!sql.trim() || isRunning}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {isRunning ? 'Running...' : 'Run'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Results */}
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Results</CardTitle>
+                <div className="flex items-center gap-2">
+                  {result && (
+                    <Badge variant="secondary">
+                      {result.rowCount.toLocaleString()} rows
+                      {elapsed !== null && ` · ${Math.round(elapsed)} ms`}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!result || result.rowCount === 0}
+                    onClick={() => downloadCSV(result!.rows, 'query_result.csv', result!.columns)}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    CSV
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {error && (
+                <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-md p-3 flex items-start gap-2 text-sm">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {!error && !result && (
+                <p className="text-sm text-muted-foreground">Run a query to see results</p>
+              )}
+
+              {result && result.columns.length === 0 && (
+                <p className="text-sm text-muted-foreground">Statement executed. No rows returned.</p>
+              )}
+
+              {result && result.columns.length > 0 && (
+                <>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          {result.columns.map(col => (
+                            <th key={col} className="text-left p-2 font-medium whitespace-nowrap">
+                              {col}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pageRows.map((row, i) => (
+                          <tr key={i} className="border-b">
+                            {result.columns.map(col => (
+                              <td key={col} className="p-2 truncate max-w-48 font-mono text-xs">
+                                {row[col] === null ? <span className="text-muted-foreground">NULL</span> : String(row[col])}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {result.rowCount > PAGE_SIZE && (
+                    <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
+                      <span>
+                        Rows {(page * PAGE_SIZE + 1).toLocaleString()}–{Math.min((page + 1) * PAGE_SIZE, result.rowCount).toLocaleString()} of {result.rowCount.toLocaleString()}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Button variant="outline" size="icon" className="h-7 w-7" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <span>Page {page + 1} of {pageCount}</span>
+                        <Button variant="outline" size="icon" className="h-7 w-7" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
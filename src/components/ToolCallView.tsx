@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Wrench, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ScatterChart, Scatter, PieChart, Pie, Cell } from 'recharts';
+import type { ChartSpec, ToolCallRecord } from '@/lib/chat/tools';
+
+interface ToolCallViewProps {
+  call: ToolCallRecord;
+}
+
+const COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444'];
+
+function ToolChart({ chart }: { chart: ChartSpec }) {
+  switch (chart.type) {
+    case 'line':
+      return (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={chart.data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} />
+            <Tooltip />
+            <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      );
+    case 'scatter':
+      return (
+        <ResponsiveContainer width="100%" height={220}>
+          <ScatterChart>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" type="number" name={chart.x} tick={{ fontSize: 10 }} />
+            <YAxis dataKey="value" type="number" name={chart.y} tick={{ fontSize: 10 }} />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter data={chart.data} fill="#3b82f6" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      );
+    case 'pie':
+      return (
+        <ResponsiveContainer width="100%" height={220}>
+          <PieChart>
+            <Pie data={chart.data} dataKey="value" nameKey="name" outerRadius={80} label={{ fontSize: 10 }}>
+              {chart.data.map((_, index) => (
+                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    default:
+      return (
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={chart.data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} />
+            <Tooltip />
+            <Bar dataKey="value" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      );
+  }
+}
+
+export function ToolCallView({ call }: ToolCallViewProps) {
+  const [expanded, setExpanded] = useState(false);
+  const args = Object.keys(call.arguments).length > 0 ? JSON.stringify(call.arguments) : '';
+
+  return (
+    <div className="bg-background border rounded-md text-xs">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 p-2 text-left hover:bg-muted/50"
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Wrench className="h-3 w-3 text-primary" />
+        <span className="font-mono font-medium">{call.name}</span>
+        <span className="font-mono text-muted-foreground truncate">({args})</span>
+        {call.error && <AlertCircle className="h-3 w-3 text-destructive ml-auto flex-shrink-0" />}
+      </button>
+
+      {call.chart && (
+        <div className="px-2 pb-2">
+          <div className="font-medium mb-1">{call.chart.title}</div>
+          <ToolChart chart={call.chart} />
+        </div>
+      )}
+
+      {expanded && (
+        <div className="border-t p-2 space-y-2">
+          {call.error ? (
+            <p className="text-destructive">Error: {call.error}</p>
+          ) : (
+            <pre className="font-mono whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+              {JSON.stringify(call.result, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useMemo, useRef, useState } from 'react';
+import { ShieldCheck, Plus, Trash2, Download, Upload, CheckCircle2, XCircle, AlertCircle, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAnalysis } from '@/hooks/use-analysis';
+import { downloadFile } from '@/lib/csv';
+import { getColumns, type Dataset } from '@/lib/workspace';
+import {
+  RULE_KINDS,
+  createRule,
+  describeRule,
+  parseRuleSet,
+  toRuleSet,
+  type RuleKind,
+  type RuleResult,
+  type ValidationRule,
+} from '@/lib/validation';
+
+interface ValidationPanelProps {
+  data: Record<string, unknown>[];
+  fileName: string;
+  columns: string[];
+  rules: ValidationRule[];
+  onRulesChange: (rules: ValidationRule[]) => void;
+  /** Datasets that foreign key rules can reference */
+  datasets: Dataset[];
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '');
+
+const parseBound = (text: string) => (text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text));
+
+function RuleStatus({ result }: { result?: RuleResult }) {
+  if (!result) return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground flex-shrink-0" />;
+  if (result.error) return <AlertCircle className="h-4 w-4 text-chart-4 flex-shrink-0" />;
+  if (result.failCount > 0) return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />;
+  return <CheckCircle2 className="h-4 w-4 text-chart-3 flex-shrink-0" />;
+}
+
+export function ValidationPanel({ data, fileName, columns, rules, onRulesChange, datasets }: ValidationPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const request = useMemo(() => {
+    const referenced = new Set(rules.filter(rule => rule.kind === 'foreign_key').map(rule => rule.table));
+    const references = datasets
+      .filter(d => referenced.has(d.tableName))
+      .map(d => ({ tableName: d.tableName, table: d.table }));
+    return { kind: 'validation' as const, rules, references };
+  }, [rules, datasets]);
+  const validation = useAnalysis(data, request);
+  // Looked up by rule, since the last results can predate an added or removed rule
+  const results = useMemo(() => new Map((validation.result || []).map(result => [result.rule.id, result])), [validation.result]);
+  const passed = [...results.values()].filter(r => rules.some(rule => rule.id === r.rule.id) && !r.error && r.failCount === 0).length;
+
+  const updateRule = (id: string, changes: Partial<ValidationRule>) =>
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const changeKind = (rule: ValidationRule, kind: RuleKind) =>
+    // Parameters of the old kind don't carry over
+    onRulesChange(rules.map(r => (r.id === rule.id ? { id: r.id, column: r.column, kind } : r)));
+
+  const handleSave = () => {
+    const ruleSet = toRuleSet(baseName(fileName), rules);
+    downloadFile(JSON.stringify(ruleSet, null, 2), `${baseName(fileName)}_rules.json`, 'application/json');
+  };
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const ruleSet = parseRuleSet(await file.text());
+      onRulesChange(ruleSet.rules);
+      toast({
+        title: "Rules Loaded",
+        description: `Applied ${ruleSet.rules.length} rules from ${ruleSet.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Rule File",
+        description: error instanceof Error ? error.message : "Could not read the rules",
+        variant: "destructive"
+      });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const renderParameters = (rule: ValidationRule) => {
+    switch (rule.kind) {
+      case 'range':
+        return (
+          <>
+            <Input
+              type="number"
+              placeholder="Min"
+              defaultValue={rule.min}
+              onChange={e => updateRule(rule.id, { min: parseBound(e.target.value) })}
+              className="w-24"
+            />
+            <Input
+              type="number"
+              placeholder="Max"
+              defaultValue={rule.max}
+              onChange={e => updateRule(rule.id, { max: parseBound(e.target.value) })}
+              className="w-24"
+            />
+          </>
+        );
+      case 'regex':
+        return (
+          <Input
+            placeholder="e.g. [A-Z]{2}\d{4}"
+            value={rule.pattern || ''}
+            onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+            className="w-56 font-mono"
+          />
+        );
+      case 'allowed':
+        return (
+          <Input
+            placeholder="Comma-separated values"
+            value={(rule.values || []).join(',')}
+            onChange={e => updateRule(rule.id, { values: e.target.value.split(',').map(v => v.trim()) })}
+            className="w-64"
+          />
+        );
+      case 'date_range':
+        return (
+          <>
+            <Input
+              type="date"
+              value={rule.after || ''}
+              onChange={e => updateRule(rule.id, { after: e.target.value || undefined })}
+              className="w-40"
+            />
+            <Input
+              type="date"
+              value={rule.before || ''}
+              onChange={e => updateRule(rule.id, { before: e.target.value || undefined })}
+              className="w-40"
+            />
+          </>
+        );
+      case 'foreign_key': {
+        const target = datasets.find(d => d.tableName === rule.table);
+        return (
+          <>
+            <Select value={rule.table || ''} onValueChange={table => updateRule(rule.id, { table, tableColumn: undefined })}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Dataset" />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map(d => (
+                  <SelectItem key={d.id} value={d.tableName}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={rule.tableColumn || ''}
+              onValueChange={tableColumn => updateRule(rule.id, { tableColumn })}
+              disabled={!target}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Column" />
+              </SelectTrigger>
+              <SelectContent>
+                {target && getColumns(target).map(col => (
+                  <SelectItem key={col} value={col}>{col}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Validation Rules
+            {rules.length > 0 && (
+              <Badge variant={passed === rules.length ? 'secondary' : 'destructive'} className="ml-1">
+                {passed} of {rules.length} passed
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={e => handleLoad(e.target.files?.[0])}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={rules.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            <Button size="sm" onClick={() => onRulesChange([...rules, createRule(columns[0] || '')])} disabled={columns.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Add rules to check this data against your expectations, or load a rule set saved from an earlier extract.
+          </p>
+        )}
+
+        {rules.map(rule => {
+          const result = results.get(rule.id);
+          const isExpanded = expanded === rule.id;
+          return (
+            <div key={rule.id} className="rounded-md border">
+              <div className="flex flex-wrap items-center gap-2 p-2">
+                <Select value={rule.column} onValueChange={column => updateRule(rule.id, { column })}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map(col => (
+                      <SelectItem key={col} value={col}>{col}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={rule.kind} onValueChange={kind => changeKind(rule, kind as RuleKind)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_KINDS.map(k => (
+                      <SelectItem key={k.id} value={k.id}>{k.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderParameters(rule)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto"
+                  onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                  title="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : rule.id)}
+                disabled={!result || (!result.error && result.failCount === 0)}
+                className="w-full flex items-center gap-2 border-t px-3 py-2 text-left text-sm hover:bg-muted/50 disabled:hover:bg-transparent"
+              >
+                <RuleStatus result={result} />
+                <span className="truncate">{describeRule(rule)}</span>
+                <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                  {!result
+                    ? validation.error || 'Checking...'
+                    : result.error
+                      ? result.error
+                      : result.failCount > 0
+                        ? `${result.failCount.toLocaleString()} of ${result.checked.toLocaleString()} rows fail (${(result.failCount / result.checked * 100).toFixed(1)}%)`
+                        : `${result.checked.toLocaleString()} rows pass`}
+                </span>
+                {result && result.failCount > 0 && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+              </button>
+
+              {isExpanded && result && result.failCount > 0 && (
+                <div className="border-t p-2 overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-right p-1 font-medium w-16">Row</th>
+                        {[rule.column, ...columns.filter(c => c !== rule.column).slice(0, 3)].map(col => (
+                          <th key={col} className="text-left p-1 font-medium">{col}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.samples.map(rowIndex => (
+                        <tr key={rowIndex} className="border-b">
+                          <td className="text-right p-1 text-muted-foreground">{rowIndex + 1}</td>
+                          {[rule.column, ...columns.filter(c => c !== rule.column).slice(0, 3)].map((col, i) => (
+                            <td key={col} className={`p-1 truncate max-w-40 ${i === 0 ? 'text-destructive font-medium' : ''}`}>
+                              {String(data[rowIndex][col] ?? '—')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {result.failCount > result.samples.length && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      First {result.samples.length} of {result.failCount.toLocaleString()} failing rows
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
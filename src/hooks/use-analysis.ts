@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { runAnalysis, type AnalysisRequest, type AnalysisResult } from '@/lib/analysis';
+
+/**
+ * Result of a scan over the given rows, run in a worker. Pass a memoized
+ * request, or null to skip the scan. While a new scan runs the previous
+ * result of the same rows stays available, with `pending` set.
+ */
+export function useAnalysis<R extends AnalysisRequest>(data: Record<string, unknown>[], request: R | null) {
+  const [result, setResult] = useState<{ data: Record<string, unknown>[]; value: AnalysisResult<R> } | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!request || data.length === 0) {
+      setPending(false);
+      return;
+    }
+
+    let stale = false;
+    setPending(true);
+    const job = runAnalysis(data, request);
+    job.promise
+      .then(value => {
+        if (!stale) setResult({ data, value });
+      })
+      .catch(error => {
+        if (!stale) setError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!stale) setPending(false);
+      });
+
+    return () => {
+      stale = true;
+      job.cancel();
+    };
+  }, [data, request]);
+
+  // A result computed for other rows never shows
+  const value = request && result?.data === data ? result.value : null;
+  return { result: value, pending, error };
+}
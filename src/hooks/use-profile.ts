@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { profileDataset, type DatasetProfile } from '@/lib/profile';
+import type { Dataset } from '@/lib/workspace';
+
+/** Profile of the given rows; null with a progress fraction while the worker scans them. */
+export function useProfile(data: Record<string, unknown>[]) {
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProfile(null);
+    setError(null);
+    if (data.length === 0) return;
+
+    let stale = false;
+    const job = profileDataset(data);
+    setProgress(job.progress);
+    const unsubscribe = job.subscribe(value => {
+      if (!stale) setProgress(value);
+    });
+    job.promise
+      .then(result => {
+        if (!stale) setProfile(result);
+      })
+      .catch(error => {
+        if (!stale) setError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      stale = true;
+      unsubscribe();
+    };
+  }, [data]);
+
+  return { profile, progress, error };
+}
+
+/** Profiles of every dataset, in order; null until all of them are done. */
+export function useProfiles(datasets: Dataset[]) {
+  const [profiles, setProfiles] = useState<DatasetProfile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProfiles(null);
+    setError(null);
+
+    let stale = false;
+    Promise.all(datasets.map(dataset => profileDataset(dataset.data).promise))
+      .then(result => {
+        if (!stale) setProfiles(result);
+      })
+      .catch(error => {
+        if (!stale) setError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [datasets]);
+
+  return { profiles, error };
+}
@@ -0,0 +1,65 @@
+// Full-dataset scans behind the quality panels (outliers, anomalies,
+// duplicates, validation), run in a worker so a large dataset doesn't block
+// rendering.
+// Each scan gets its own worker, which is terminated when a newer scan
+// replaces it.
+
+import { toTable, type ColumnarTable } from './columnar';
+import type { DuplicateGroup, FuzzyClusters } from './duplicates';
+import type { AnomalyOptions, ColumnOutliers, OutlierSettings, SeriesPoint } from './outliers';
+import type { ColumnProfile } from './profile';
+import type { RuleResult, ValidationRule } from './validation';
+
+export type AnalysisRequest =
+  | { kind: 'outliers'; columns: ColumnProfile[]; settings: OutlierSettings }
+  | { kind: 'anomalies'; dateColumn: string; metric: string; options: AnomalyOptions }
+  | { kind: 'duplicates'; columns: string[] }
+  | { kind: 'fuzzy'; column: string; maxDistance: number }
+  /** `references` holds the datasets that foreign key rules point at */
+  | { kind: 'validation'; rules: ValidationRule[]; references: { tableName: string; table: ColumnarTable }[] };
+
+/** What each kind of scan returns */
+export interface AnalysisResults {
+  outliers: ColumnOutliers[];
+  anomalies: SeriesPoint[];
+  duplicates: DuplicateGroup[];
+  fuzzy: FuzzyClusters;
+  validation: RuleResult[];
+}
+
+export type AnalysisResult<R extends AnalysisRequest> = AnalysisResults[R['kind']];
+
+export type AnalysisWorkerRequest = { table: ColumnarTable; request: AnalysisRequest };
+
+export type AnalysisWorkerResponse =
+  | { type: 'done'; result: AnalysisResults[AnalysisRequest['kind']] }
+  | { type: 'error'; error: string };
+
+export interface AnalysisJob<T> {
+  promise: Promise<T>;
+  /** Stops the scan; the promise then never settles */
+  cancel: () => void;
+}
+
+export const runAnalysis = <R extends AnalysisRequest>(
+  rows: Record<string, unknown>[],
+  request: R
+): AnalysisJob<AnalysisResult<R>> => {
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  const promise = new Promise<AnalysisResult<R>>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const response = event.data;
+      worker.terminate();
+      if (response.type === 'done') resolve(response.result as AnalysisResult<R>);
+      else reject(new Error(response.error));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    const message: AnalysisWorkerRequest = { table: toTable(rows), request };
+    worker.postMessage(message);
+  });
+  return { promise, cancel: () => worker.terminate() };
+};
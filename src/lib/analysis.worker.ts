@@ -0,0 +1,32 @@
+import { rowView } from './columnar';
+import { findDuplicateGroups, findFuzzyClusters } from './duplicates';
+import { detectAnomalies, findOutliers } from './outliers';
+import { evaluateRules } from './validation';
+import type { AnalysisRequest, AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis';
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+const run = (rows: Record<string, unknown>[], request: AnalysisRequest) => {
+  switch (request.kind) {
+    case 'outliers':
+      return findOutliers(rows, request.columns, request.settings);
+    case 'anomalies':
+      return detectAnomalies(rows, request.dateColumn, request.metric, request.options);
+    case 'duplicates':
+      return findDuplicateGroups(rows, request.columns);
+    case 'fuzzy':
+      return findFuzzyClusters(rows, request.column, request.maxDistance);
+    case 'validation': {
+      const tables = request.references.map(({ tableName, table }) => ({ tableName, data: rowView(table) }));
+      return evaluateRules(rows, request.rules, tables);
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  try {
+    post({ type: 'done', result: run(rowView(event.data.table), event.data.request) });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,167 @@
+// Turns the chart on screen into standalone files. Recharts draws into an SVG
+// whose colors and fonts partly come from the page's CSS, so those are copied
+// onto the elements before the SVG leaves the page.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** One entry of the legend drawn under an exported chart */
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+export interface ChartImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+export const PNG_SCALES: { id: string; label: string }[] = [
+  { id: '1', label: '1x' },
+  { id: '2', label: '2x' },
+  { id: '3', label: '3x' },
+  { id: '4', label: '4x' },
+];
+
+const STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'visibility',
+  'font-family',
+  'font-size',
+  'font-weight',
+];
+
+const PADDING = 16;
+const TITLE_SIZE = 18;
+const LEGEND_SIZE = 12;
+const LEGEND_ROW = 20;
+const SWATCH = 10;
+const TEXT_COLOR = '#0f172a';
+
+/** The chart's own drawing: the largest SVG inside the container, so legend icons are skipped */
+export const findChartSvg = (container: HTMLElement): SVGSVGElement | null => {
+  let largest: SVGSVGElement | null = null;
+  let largestArea = 0;
+  for (const svg of Array.from(container.querySelectorAll('svg'))) {
+    const { width, height } = svg.getBoundingClientRect();
+    if (width * height > largestArea) {
+      largest = svg;
+      largestArea = width * height;
+    }
+  }
+  return largest;
+};
+
+// Clone and source have the same elements in the same order. This replaces
+// inline styles too, such as the heatmap's on-screen max height.
+const inlineStyles = (source: SVGSVGElement, target: SVGSVGElement) => {
+  const sources = [source, ...Array.from(source.querySelectorAll('*'))];
+  const targets = [target, ...Array.from(target.querySelectorAll('*'))];
+  sources.forEach((element, i) => {
+    const computed = getComputedStyle(element);
+    const style = STYLE_PROPERTIES.map(property => `${property}:${computed.getPropertyValue(property)}`).join(';');
+    targets[i].setAttribute('style', style);
+  });
+};
+
+const svgElement = (name: string, attributes: Record<string, string | number>, text?: string) => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+// Legend entries flow left to right and wrap onto new rows
+const layoutLegend = (items: LegendItem[], width: number, font: string) => {
+  const context = document.createElement('canvas').getContext('2d');
+  if (context) context.font = `${LEGEND_SIZE}px ${font}`;
+  const measure = (text: string) => context?.measureText(text).width ?? text.length * LEGEND_SIZE * 0.6;
+
+  let x = PADDING;
+  let row = 0;
+  return items.map(item => {
+    const itemWidth = SWATCH + 6 + measure(item.label) + 16;
+    if (x > PADDING && x + itemWidth > width - PADDING) {
+      x = PADDING;
+      row++;
+    }
+    const placed = { ...item, x, row };
+    x += itemWidth;
+    return placed;
+  });
+};
+
+/**
+ * Builds one standalone SVG with the title above the chart and the legend
+ * below it, on a white background so it can be dropped onto a slide.
+ */
+export const composeChartSvg = (svg: SVGSVGElement, title: string, legend: LegendItem[]): ChartImage => {
+  const bounds = svg.getBoundingClientRect();
+  const chartWidth = Math.ceil(bounds.width);
+  const chartHeight = Math.ceil(bounds.height);
+  const font = getComputedStyle(svg).getPropertyValue('font-family') || 'sans-serif';
+  const width = chartWidth + PADDING * 2;
+
+  const titleHeight = title ? TITLE_SIZE + PADDING : 0;
+  const entries = layoutLegend(legend, width, font);
+  const rows = entries.length > 0 ? entries[entries.length - 1].row + 1 : 0;
+  const legendTop = PADDING + titleHeight + chartHeight + (rows > 0 ? PADDING / 2 : 0);
+  const height = legendTop + rows * LEGEND_ROW + PADDING;
+
+  const root = svgElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-family': font });
+  root.appendChild(svgElement('rect', { width, height, fill: '#ffffff' }));
+  if (title) {
+    root.appendChild(
+      svgElement('text', { x: PADDING, y: PADDING + TITLE_SIZE, 'font-size': TITLE_SIZE, 'font-weight': 600, fill: TEXT_COLOR }, title)
+    );
+  }
+
+  const chart = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, chart);
+  chart.setAttribute('x', String(PADDING));
+  chart.setAttribute('y', String(PADDING + titleHeight));
+  chart.setAttribute('width', String(chartWidth));
+  chart.setAttribute('height', String(chartHeight));
+  root.appendChild(chart);
+
+  entries.forEach(entry => {
+    const y = legendTop + entry.row * LEGEND_ROW;
+    root.appendChild(svgElement('rect', { x: entry.x, y, width: SWATCH, height: SWATCH, rx: 2, fill: entry.color }));
+    root.appendChild(
+      svgElement(
+        'text',
+        { x: entry.x + SWATCH + 6, y: y + SWATCH / 2, 'dominant-baseline': 'central', 'font-size': LEGEND_SIZE, fill: TEXT_COLOR },
+        entry.label
+      )
+    );
+  });
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+};
+
+/** Rasterizes a composed chart; scale 2 gives twice the on-screen resolution */
+export const renderChartPng = (image: ChartImage, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('This browser cannot draw images'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))), 'image/png');
+    };
+    img.onerror = () => reject(new Error('The chart could not be drawn as an image'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.markup)}`;
+  });
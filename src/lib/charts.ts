@@ -0,0 +1,667 @@
+import { toNumber } from './correlation';
+import { formatPeriod, nextPeriod, toTime, truncateTime, type Granularity } from './dates';
+import { histogram, quantile } from './profiler';
+import { isCategory, isMeasure } from './semantic';
+import { formatNumber } from './utils';
+import type { DatasetProfile } from './profile';
+
+// Chart builder settings. They are kept per dataset by the workspace, so a
+// chart survives switching tabs, switching datasets and reloading the page.
+
+export type ChartType = 'bar' | 'line' | 'area' | 'scatter' | 'pie' | 'histogram' | 'box' | 'heatmap';
+
+/** How the series of a bar or area chart are combined */
+export type Stacking = 'none' | 'stacked' | 'percent';
+
+export const STACKINGS: { id: Stacking; label: string }[] = [
+  { id: 'none', label: 'Grouped' },
+  { id: 'stacked', label: 'Stacked' },
+  { id: 'percent', label: '100% stacked' },
+];
+
+/** A further Y measure of a bar, line or area chart */
+export interface ChartMeasure {
+  column: string;
+  aggregation: string;
+  /** Plotted against a second axis on the right */
+  secondary: boolean;
+}
+
+/** Applied to time series after resampling */
+export type ChartTransform = 'none' | 'rolling' | 'cumulative';
+
+export const TRANSFORMS: { id: ChartTransform; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'rolling', label: 'Rolling average' },
+  { id: 'cumulative', label: 'Cumulative sum' },
+];
+
+export const AGGREGATIONS: { id: string; label: string }[] = [
+  { id: 'sum', label: 'Sum' },
+  { id: 'avg', label: 'Average' },
+  { id: 'count', label: 'Count' },
+  { id: 'count_distinct', label: 'Count distinct' },
+  { id: 'median', label: 'Median' },
+  { id: 'min', label: 'Minimum' },
+  { id: 'max', label: 'Maximum' },
+  { id: 'p25', label: '25th percentile' },
+  { id: 'p75', label: '75th percentile' },
+  { id: 'p90', label: '90th percentile' },
+  { id: 'p95', label: '95th percentile' },
+];
+
+export type SortBy = 'value' | 'key';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ChartConfig {
+  chartType: ChartType;
+  /** Shown above the chart and in exports; empty to describe the chart from its columns */
+  title: string;
+  /** Bar, line and area charts group the rows by this column */
+  xAxis: string;
+  yAxis: string;
+  aggregation: string;
+  /** Measures plotted next to the Y axis column, each with its own aggregation */
+  measures: ChartMeasure[];
+  /** Color / series category: splits bars, lines, areas and points into series */
+  series: string;
+  /** Category whose values are the rows of a heatmap */
+  heatmapRows: string;
+  stacking: Stacking;
+  /** Period dates on the X axis are grouped into */
+  granularity: Granularity;
+  /** Adds the periods without rows, so gaps in time show as gaps */
+  fillGaps: boolean;
+  transform: ChartTransform;
+  /** Periods averaged by the rolling average */
+  rollingWindow: number;
+  /** Order of categories: by the first measure's value or by the X value itself */
+  sortBy: SortBy;
+  sortOrder: SortOrder;
+  /** Categories shown, largest first; 0 shows as many as can be drawn */
+  limit: number;
+  /** Combines the categories beyond the limit into one "Other" category */
+  otherBucket: boolean;
+  /** Histogram bin count, used when no bin width is set */
+  bins: number;
+  /** Histogram bin width; 0 to use the bin count */
+  binWidth: number;
+}
+
+export const DEFAULT_CHART_CONFIG: ChartConfig = {
+  chartType: 'bar',
+  title: '',
+  xAxis: '',
+  yAxis: '',
+  aggregation: 'sum',
+  measures: [],
+  series: 'none',
+  heatmapRows: '',
+  stacking: 'none',
+  granularity: 'month',
+  fillGaps: true,
+  transform: 'none',
+  rollingWindow: 3,
+  sortBy: 'value',
+  sortOrder: 'desc',
+  limit: 20,
+  otherBucket: true,
+  bins: 20,
+  binWidth: 0,
+};
+
+/**
+ * Fills in fields added since the settings were saved. A group-by column used
+ * to stand in for the X axis, and heatmaps used to take their rows from the
+ * color / series column.
+ */
+export const normalizeChartConfig = ({ groupBy, ...config }: Partial<ChartConfig> & { groupBy?: string }): ChartConfig => {
+  const normalized = {
+    ...DEFAULT_CHART_CONFIG,
+    ...config,
+    ...(groupBy && groupBy !== 'none' ? { xAxis: groupBy } : {}),
+  };
+  if (normalized.chartType === 'heatmap' && config.heatmapRows === undefined && normalized.series !== 'none') {
+    return { ...normalized, heatmapRows: normalized.series, series: 'none' };
+  }
+  return normalized;
+};
+
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'area', 'scatter', 'pie', 'histogram', 'box', 'heatmap'];
+
+const aggregationLabel = (aggregation: string) => AGGREGATIONS.find(option => option.id === aggregation)?.label || aggregation;
+
+/** The chart's title, or a description of what it plots when none is set */
+export const chartTitle = (config: ChartConfig) => {
+  if (config.title.trim()) return config.title.trim();
+  const { chartType, xAxis, yAxis, heatmapRows, aggregation } = config;
+  const measure = `${aggregationLabel(aggregation)} of ${yAxis}`;
+  switch (chartType) {
+    case 'pie':
+      return `Rows by ${xAxis}`;
+    case 'scatter':
+      return `${yAxis} vs ${xAxis}`;
+    case 'histogram':
+      return `Distribution of ${xAxis}`;
+    case 'box':
+      return xAxis && xAxis !== 'none' ? `${yAxis} by ${xAxis}` : yAxis;
+    case 'heatmap':
+      return `${yAxis ? measure : 'Rows'} by ${heatmapRows} and ${xAxis}`;
+    default:
+      return `${measure} by ${xAxis}`;
+  }
+};
+
+const MAX_CATEGORIES = 50;
+
+/**
+ * Starting axes for a dataset: a money column if there is one, otherwise
+ * the first measure, against a low-cardinality category or else a date.
+ * Returns null when the profile has no usable pair.
+ */
+export const suggestChartConfig = (profile: DatasetProfile): Pick<ChartConfig, 'xAxis' | 'yAxis' | 'aggregation'> | null => {
+  const measures = profile.columns.filter(isMeasure);
+  const measure = measures.find(c => c.semantic?.type === 'currency') || measures[0];
+  if (!measure) return null;
+
+  const categories = profile.columns.filter(c => isCategory(c, MAX_CATEGORIES));
+  // Yes/no splits are the least interesting breakdown
+  const category = categories.find(c => c.semantic?.type !== 'boolean') || categories[0];
+  if (category) {
+    return {
+      xAxis: category.name,
+      yAxis: measure.name,
+      // Rates and percentages don't add up
+      aggregation: measure.semantic?.type === 'percent' ? 'avg' : 'sum',
+    };
+  }
+
+  const date = profile.columns.find(c => c.type === 'date');
+  return date ? { xAxis: date.name, yAxis: measure.name, aggregation: 'sum' } : null;
+};
+
+export type ChartPoint = Record<string, string | number | number[]>;
+
+/** Chart-ready data for one chart type */
+export interface ChartData {
+  /** One object per x position; per point for scatter plots and per cell for heatmaps */
+  points: ChartPoint[];
+  /** Value keys on each point and their display names, one per measure and series */
+  series: { key: string; name: string; secondary?: boolean }[];
+  /** Column and row labels of a heatmap, in display order */
+  xLabels?: string[];
+  yLabels?: string[];
+  /** What was left out or combined to keep the chart readable */
+  warnings: string[];
+}
+
+const SINGLE_SERIES = [{ key: 'value', name: 'value' }];
+const EMPTY: ChartData = { points: [], series: SINGLE_SERIES, warnings: [] };
+
+// Upper bound on categories, whatever the limit, so the chart stays drawable
+const MAX_GROUPS = 500;
+const MAX_BOXES = 20;
+const MAX_SERIES = 10;
+const PIE_SLICES = 10;
+const SCATTER_POINTS = 1000;
+const HEATMAP_SIZE = 20;
+const MAX_BINS = 200;
+const MAX_PERIODS = 1000;
+const MAX_FILLED_PERIODS = 5000;
+
+const labelOf = (value: unknown) => (value === null || value === undefined || value === '' ? 'Unknown' : String(value));
+
+const PERCENTILES: Record<string, number> = { median: 0.5, p25: 0.25, p75: 0.75, p90: 0.9, p95: 0.95 };
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+/** Aggregates the raw values of a column; null when there is nothing numeric to aggregate. */
+export const aggregate = (raw: unknown[], aggregation: string): number | null => {
+  const present = raw.filter(value => !isMissing(value));
+  if (aggregation === 'count') return present.length;
+  if (aggregation === 'count_distinct') return new Set(present.map(String)).size;
+  const values = present.map(toNumber).filter(value => !isNaN(value));
+  if (values.length === 0) return null;
+  if (aggregation in PERCENTILES) return quantile(Float64Array.from(values).sort(), PERCENTILES[aggregation]);
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    sum += value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  switch (aggregation) {
+    case 'avg':
+      return sum / values.length;
+    case 'max':
+      return max;
+    case 'min':
+      return min;
+    default:
+      return sum;
+  }
+};
+
+// The keys with the most rows, most first
+const topKeys = (counts: Map<string, number>, limit: number) =>
+  [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([key]) => key);
+
+const countBy = (rows: Record<string, unknown>[], column: string) => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const key = labelOf(row[column]);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+const ADDITIVE = new Set(['sum', 'count', 'count_distinct']);
+
+// Every period from the first to the last, unless that would be too many to plot
+const fillPeriods = (times: number[], granularity: Granularity) => {
+  const sorted = [...times].sort((a, b) => a - b);
+  if (sorted.length === 0) return sorted;
+  const filled: number[] = [];
+  const last = sorted[sorted.length - 1];
+  for (let time = sorted[0]; time <= last; time = nextPeriod(time, granularity)) {
+    if (filled.length === MAX_FILLED_PERIODS) return sorted;
+    filled.push(time);
+  }
+  return filled;
+};
+
+// Rolling averages over the last few periods, or running totals, per series
+const applyTransform = (points: ChartPoint[], series: ChartData['series'], { transform, rollingWindow }: ChartConfig) => {
+  if (transform === 'none') return points;
+  series.forEach(({ key }) => {
+    const raw = points.map(point => point[key] as number | undefined);
+    let running = 0;
+    let started = false;
+    points.forEach((point, i) => {
+      if (transform === 'cumulative') {
+        running += raw[i] || 0;
+        started = started || raw[i] !== undefined;
+        if (started) point[key] = running;
+        return;
+      }
+      const window = raw.slice(Math.max(0, i - rollingWindow + 1), i + 1).filter((value): value is number => value !== undefined);
+      if (window.length > 0) point[key] = window.reduce((sum, value) => sum + value, 0) / window.length;
+    });
+  });
+  return points;
+};
+
+// The Y axis column followed by the further measures that have a column
+const measuresOf = ({ yAxis, aggregation, measures }: ChartConfig): ChartMeasure[] => [
+  { column: yAxis, aggregation, secondary: false },
+  ...measures.filter(measure => measure.column),
+];
+
+// The busiest values of the color category, with a warning when some are left out
+const seriesOf = (rows: Record<string, unknown>[], series: string, warnings: string[]) => {
+  if (series === 'none') return null;
+  const counts = countBy(rows, series);
+  if (counts.size > MAX_SERIES) {
+    warnings.push(`Only the ${MAX_SERIES} most common of ${counts.size.toLocaleString()} ${series} values are shown as series.`);
+  }
+  return topKeys(counts, MAX_SERIES);
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// Bar, line and area charts: one point per X value or period, one series per measure and color category value
+const categoryData = (rows: Record<string, unknown>[], config: ChartConfig, timeAxis: boolean): ChartData => {
+  const { xAxis, yAxis, series, granularity, sortBy, sortOrder, limit, otherBucket } = config;
+  if (!yAxis) return EMPTY;
+  const warnings: string[] = [];
+  const measures = measuresOf(config);
+  const seriesLabels = seriesOf(rows, series, warnings);
+  const seriesIndex = new Map((seriesLabels || []).map((label, i) => [label, i]));
+  const width = seriesLabels ? seriesLabels.length : 1;
+  const descriptors = measures.flatMap((measure, j) =>
+    (seriesLabels || [measure.column]).map((label, i) => ({
+      key: `m${j}s${i}`,
+      name: seriesLabels && measures.length > 1 ? `${label} · ${measure.column}` : label,
+      secondary: measure.secondary,
+    }))
+  );
+
+  // Dates are grouped by the start of their period, anything else by its label
+  const keyOf = (row: Record<string, unknown>): string | number | null => {
+    if (!timeAxis) return labelOf(row[xAxis]);
+    const time = toTime(row[xAxis]);
+    return isNaN(time) ? null : truncateTime(time, granularity);
+  };
+  const groups = new Map<string | number, unknown[][]>();
+  rows.forEach(row => {
+    const i = seriesLabels ? seriesIndex.get(labelOf(row[series])) : 0;
+    const key = keyOf(row);
+    if (i === undefined || key === null) return;
+    if (!groups.has(key)) groups.set(key, descriptors.map(() => []));
+    const values = groups.get(key)!;
+    measures.forEach((measure, j) => values[j * width + i].push(row[measure.column]));
+  });
+  const aggregationOf = (k: number) => measures[Math.floor(k / width)].aggregation;
+  const pointOf = (name: string, values: unknown[][]) => {
+    const point: ChartPoint = { name };
+    descriptors.forEach((descriptor, k) => {
+      // Combinations without values are left out rather than plotted as zero
+      const value = aggregate(values[k], aggregationOf(k));
+      if (value !== null) point[descriptor.key] = value;
+    });
+    return point;
+  };
+
+  if (timeAxis) {
+    const times = [...groups.keys()] as number[];
+    const periods = config.fillGaps ? fillPeriods(times, granularity) : times.sort((a, b) => a - b);
+    if (periods.length > MAX_PERIODS) {
+      warnings.push(`Only the last ${MAX_PERIODS.toLocaleString()} of ${periods.length.toLocaleString()} periods are shown; try a coarser granularity.`);
+    }
+    const points = periods.slice(-MAX_PERIODS).map(time => {
+      const point = { ...pointOf(formatPeriod(time, granularity), groups.get(time) || descriptors.map(() => [])), time };
+      // Sums and counts of an empty period are zero; averages and extremes stay empty
+      if (config.fillGaps) {
+        descriptors.forEach((descriptor, k) => {
+          if (point[descriptor.key] === undefined && ADDITIVE.has(aggregationOf(k))) point[descriptor.key] = 0;
+        });
+      }
+      return point;
+    });
+    return { points: applyTransform(points, descriptors, config), series: descriptors, warnings };
+  }
+
+  // The first measure, summed over its series, decides which categories make the cut
+  const total = (point: ChartPoint) => descriptors.slice(0, width).reduce((sum, d) => sum + ((point[d.key] as number) || 0), 0);
+  const ranked = [...groups.entries()]
+    .map(([key, values]) => ({ values, point: pointOf(String(key), values) }))
+    .sort((a, b) => total(b.point) - total(a.point));
+  const shown = limit > 0 ? Math.min(limit, MAX_GROUPS) : MAX_GROUPS;
+  const rest = ranked.slice(shown);
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  const points = ranked
+    .slice(0, shown)
+    .map(group => group.point)
+    .sort((a, b) => direction * (sortBy === 'key' ? collator.compare(String(a.name), String(b.name)) : total(a) - total(b)));
+
+  if (rest.length > 0 && otherBucket) {
+    // Aggregated from the rows themselves, so averages and distinct counts stay correct
+    points.push(pointOf(`Other (${rest.length.toLocaleString()})`, descriptors.map((_, k) => rest.flatMap(group => group.values[k]))));
+    warnings.push(`${rest.length.toLocaleString()} smaller ${xAxis} values are combined into "Other".`);
+  } else if (rest.length > 0) {
+    warnings.push(`Only the top ${shown.toLocaleString()} of ${ranked.length.toLocaleString()} ${xAxis} values are shown.`);
+  }
+  return { points, series: descriptors, warnings };
+};
+
+const pieData = (rows: Record<string, unknown>[], { xAxis, otherBucket }: ChartConfig): ChartData => {
+  const slices = [...countBy(rows, xAxis).entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+  const points: ChartPoint[] = slices.slice(0, PIE_SLICES);
+  const rest = slices.slice(PIE_SLICES);
+  const warnings: string[] = [];
+  if (rest.length > 0 && otherBucket) {
+    points.push({ name: `Other (${rest.length.toLocaleString()})`, value: rest.reduce((sum, slice) => sum + slice.value, 0) });
+    warnings.push(`${rest.length.toLocaleString()} smaller ${xAxis} values are combined into "Other".`);
+  } else if (rest.length > 0) {
+    warnings.push(`Only the top ${PIE_SLICES} of ${slices.length.toLocaleString()} ${xAxis} values are shown.`);
+  }
+  return { points, series: SINGLE_SERIES, warnings };
+};
+
+// Each point carries the series it is colored by
+const scatterData = (rows: Record<string, unknown>[], { xAxis, yAxis, series }: ChartConfig): ChartData => {
+  if (!yAxis) return EMPTY;
+  const warnings: string[] = [];
+  const labels = seriesOf(rows, series, warnings) || [yAxis];
+  const kept = new Set(labels);
+  const points: ChartPoint[] = [];
+  let plottable = 0;
+  for (const row of rows) {
+    const x = toNumber(row[xAxis]);
+    const y = toNumber(row[yAxis]);
+    const label = series !== 'none' ? labelOf(row[series]) : yAxis;
+    if (isNaN(x) || isNaN(y) || !kept.has(label)) continue;
+    plottable++;
+    if (points.length < SCATTER_POINTS) points.push({ x, y, series: label });
+  }
+  if (plottable > SCATTER_POINTS) {
+    warnings.push(`Only the first ${SCATTER_POINTS.toLocaleString()} of ${plottable.toLocaleString()} points are plotted.`);
+  }
+  return { points, series: labels.map(label => ({ key: label, name: label })), warnings };
+};
+
+const sortedNumbers = (rows: Record<string, unknown>[], column: string) => {
+  const values = rows.map(row => toNumber(row[column])).filter(value => !isNaN(value));
+  return Float64Array.from(values).sort();
+};
+
+// Bins of the set width aligned to multiples of it, or the set number of equal bins
+const histogramData = (rows: Record<string, unknown>[], { xAxis, bins, binWidth }: ChartConfig): ChartData => {
+  const sorted = sortedNumbers(rows, xAxis);
+  if (sorted.length === 0) return EMPTY;
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  let result = histogram(sorted, Math.max(1, Math.min(MAX_BINS, Math.round(bins) || 1)));
+  if (binWidth > 0 && Math.floor((max - min) / binWidth) < MAX_BINS) {
+    const start = Math.floor(min / binWidth) * binWidth;
+    result = Array.from({ length: Math.floor((max - start) / binWidth) + 1 }, (_, i) => ({
+      start: start + i * binWidth,
+      end: start + (i + 1) * binWidth,
+      count: 0,
+    }));
+    sorted.forEach(value => result[Math.min(result.length - 1, Math.floor((value - start) / binWidth))].count++);
+  }
+
+  const points = result.map(bin => ({
+    name: `${formatNumber(bin.start)}–${formatNumber(bin.end)}`,
+    value: bin.count,
+    start: bin.start,
+    end: bin.end,
+  }));
+  return { points, series: SINGLE_SERIES, warnings: [] };
+};
+
+/** Five-number summary of one box, with whiskers at the furthest values within 1.5 IQR of the box */
+export interface BoxStats {
+  low: number;
+  q1: number;
+  median: number;
+  q3: number;
+  high: number;
+  outliers: number;
+  count: number;
+}
+
+export const boxStats = (sorted: Float64Array): BoxStats => {
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  let low = q1;
+  let high = q3;
+  let outliers = 0;
+  sorted.forEach(value => {
+    if (value < q1 - fence || value > q3 + fence) outliers++;
+    else {
+      low = Math.min(low, value);
+      high = Math.max(high, value);
+    }
+  });
+  return { low, q1, median: quantile(sorted, 0.5), q3, high, outliers, count: sorted.length };
+};
+
+// One box per category of the x column, or a single box without one
+const boxData = (rows: Record<string, unknown>[], { xAxis, yAxis }: ChartConfig): ChartData => {
+  if (!yAxis) return EMPTY;
+  const grouped = xAxis && xAxis !== 'none';
+  const groups = new Map<string, number[]>();
+  rows.forEach(row => {
+    const value = toNumber(row[yAxis]);
+    if (isNaN(value)) return;
+    const key = grouped ? labelOf(row[xAxis]) : yAxis;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(value);
+  });
+
+  const warnings = groups.size > MAX_BOXES
+    ? [`Only the ${MAX_BOXES} largest of ${groups.size.toLocaleString()} ${xAxis} values get a box.`]
+    : [];
+  const points = [...groups.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, MAX_BOXES)
+    .map(([name, values]) => {
+      const stats = boxStats(Float64Array.from(values).sort());
+      // The bar spans the whiskers; the box inside it is drawn by the chart
+      return { name, range: [stats.low, stats.high], ...stats };
+    })
+    .sort((a, b) => b.median - a.median);
+  return { points, series: [{ key: 'range', name: yAxis }], warnings };
+};
+
+// Category × category grid of the aggregated measure, or of row counts without one
+const heatmapData = (rows: Record<string, unknown>[], { xAxis, yAxis, heatmapRows, aggregation }: ChartConfig): ChartData => {
+  if (!heatmapRows) return EMPTY;
+  const xCounts = countBy(rows, xAxis);
+  const yCounts = countBy(rows, heatmapRows);
+  const xLabels = topKeys(xCounts, HEATMAP_SIZE);
+  const yLabels = topKeys(yCounts, HEATMAP_SIZE);
+  const warnings = [[xAxis, xCounts] as const, [heatmapRows, yCounts] as const]
+    .filter(([, counts]) => counts.size > HEATMAP_SIZE)
+    .map(([column, counts]) => `Only the ${HEATMAP_SIZE} most common of ${counts.size.toLocaleString()} ${column} values are shown.`);
+  const xs = new Set(xLabels);
+  const ys = new Set(yLabels);
+  const countRows = !yAxis || aggregation === 'count';
+
+  const cells = new Map<string, { x: string; y: string; values: unknown[] }>();
+  rows.forEach(row => {
+    const x = labelOf(row[xAxis]);
+    const y = labelOf(row[heatmapRows]);
+    if (!xs.has(x) || !ys.has(y)) return;
+    const key = JSON.stringify([x, y]);
+    if (!cells.has(key)) cells.set(key, { x, y, values: [] });
+    cells.get(key)!.values.push(countRows ? 1 : row[yAxis]);
+  });
+
+  const points: ChartPoint[] = [];
+  cells.forEach(({ x, y, values }) => {
+    const value = countRows ? values.length : aggregate(values, aggregation);
+    if (value !== null) points.push({ x, y, value });
+  });
+  return { points, series: [{ key: 'value', name: countRows ? 'Rows' : yAxis }], xLabels, yLabels, warnings };
+};
+
+/**
+ * Transforms the rows for the configured chart type. Empty until the required
+ * columns are picked. With a time axis, bar, line and area charts group the X
+ * dates by period and keep them in time order.
+ */
+export const chartData = (rows: Record<string, unknown>[], config: ChartConfig, { timeAxis = false } = {}): ChartData => {
+  if (!config.xAxis && config.chartType !== 'box') return EMPTY;
+  switch (config.chartType) {
+    case 'pie':
+      return pieData(rows, config);
+    case 'scatter':
+      return scatterData(rows, config);
+    case 'histogram':
+      return histogramData(rows, config);
+    case 'box':
+      return boxData(rows, config);
+    case 'heatmap':
+      return heatmapData(rows, config);
+    default:
+      return categoryData(rows, config, timeAxis);
+  }
+};
+
+/** The dataset a chart spec was made from, so an import can tell when columns are missing */
+export interface ChartDatasetReference {
+  name: string;
+  rows: number;
+  columns: string[];
+}
+
+/** A chart saved to a file, independent of the workspace it came from */
+export interface ChartSpec {
+  version: 1;
+  /** The title set on the chart; empty when it is described from its columns */
+  title: string;
+  type: ChartType;
+  /** Columns mapped to each channel; measures carry their own aggregation */
+  encoding: {
+    x: string;
+    y: string;
+    color: string;
+    /** Rows of a heatmap */
+    rows: string;
+    measures: ChartMeasure[];
+  };
+  /** Aggregation of the Y column */
+  aggregation: string;
+  /** Row filters applied before charting. The chart builder plots every row, so it writes none */
+  filters: unknown[];
+  /** The remaining chart settings, as in ChartConfig */
+  options: Omit<ChartConfig, 'chartType' | 'title' | 'xAxis' | 'yAxis' | 'series' | 'heatmapRows' | 'measures' | 'aggregation'>;
+  dataset: ChartDatasetReference;
+}
+
+export const toChartSpec = (config: ChartConfig, dataset: ChartDatasetReference): ChartSpec => {
+  const { chartType, title, xAxis, yAxis, series, heatmapRows, measures, aggregation, ...options } = config;
+  return {
+    version: 1,
+    title,
+    type: chartType,
+    encoding: { x: xAxis, y: yAxis, color: series, rows: heatmapRows, measures },
+    aggregation,
+    filters: [],
+    options,
+    dataset,
+  };
+};
+
+/** Reads a spec saved by toChartSpec, throwing a readable error for anything else. */
+export const parseChartSpec = (text: string): { config: ChartConfig; dataset?: ChartDatasetReference; filters: number } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const candidate = parsed as Partial<ChartSpec>;
+  if (!candidate || !CHART_TYPES.includes(candidate.type as ChartType)) throw new Error('The file does not describe a known chart type');
+  const encoding = candidate.encoding;
+  if (!encoding || typeof encoding.x !== 'string') throw new Error('The chart spec needs an X encoding');
+
+  const measures = Array.isArray(encoding.measures) ? encoding.measures : [];
+  measures.forEach((measure, index) => {
+    if (!measure || typeof measure.column !== 'string' || typeof measure.aggregation !== 'string') {
+      throw new Error(`Measure ${index + 1} needs a column and an aggregation`);
+    }
+  });
+  // Settings of the wrong type fall back to their defaults
+  const options = Object.fromEntries(
+    Object.entries(candidate.options || {}).filter(
+      ([key, value]) => key in DEFAULT_CHART_CONFIG && typeof value === typeof DEFAULT_CHART_CONFIG[key as keyof ChartConfig]
+    )
+  );
+
+  const config = normalizeChartConfig({
+    ...options,
+    chartType: candidate.type,
+    title: typeof candidate.title === 'string' ? candidate.title : '',
+    xAxis: encoding.x,
+    yAxis: typeof encoding.y === 'string' ? encoding.y : '',
+    series: typeof encoding.color === 'string' ? encoding.color : 'none',
+    heatmapRows: typeof encoding.rows === 'string' ? encoding.rows : '',
+    measures: measures.map(({ column, aggregation, secondary }) => ({ column, aggregation, secondary: !!secondary })),
+    aggregation: typeof candidate.aggregation === 'string' ? candidate.aggregation : DEFAULT_CHART_CONFIG.aggregation,
+  });
+  return {
+    config,
+    dataset: candidate.dataset && typeof candidate.dataset.name === 'string' ? candidate.dataset : undefined,
+    filters: Array.isArray(candidate.filters) ? candidate.filters.length : 0,
+  };
+};
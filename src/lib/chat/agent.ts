@@ -0,0 +1,103 @@
+import { TOOL_DEFINITIONS, executeTool, type ToolCallRecord, type ToolContext } from './tools';
+import type { ApiMessage, LLMProvider } from './providers';
+
+// Multi-step function-calling loop: the model may call tools, their results are
+// fed back, and the loop ends on a plain answer or when the step limit is hit.
+// The provider streams each completion so the answer renders while it is written.
+
+export const MAX_AGENT_STEPS = 6;
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AgentOptions {
+  provider: LLMProvider;
+  systemPrompt: string;
+  history: ChatTurn[];
+  context: ToolContext;
+  maxSteps?: number;
+  /** Aborting stops the current request and returns what was produced so far */
+  signal?: AbortSignal;
+  /** Called as soon as each tool call has finished, so the UI can show progress */
+  onToolCall?: (record: ToolCallRecord) => void;
+  /** Called with the answer text accumulated so far on every streamed token */
+  onContent?: (content: string) => void;
+}
+
+export interface AgentResult {
+  content: string;
+  toolCalls: ToolCallRecord[];
+  reachedStepLimit: boolean;
+  cancelled: boolean;
+}
+
+export const runAgent = async ({
+  provider,
+  systemPrompt,
+  history,
+  context,
+  maxSteps = MAX_AGENT_STEPS,
+  signal,
+  onToolCall,
+  onContent,
+}: AgentOptions): Promise<AgentResult> => {
+  const messages: ApiMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...history.map(turn => ({ role: turn.role, content: turn.content })),
+  ];
+  const toolCalls: ToolCallRecord[] = [];
+  let content = '';
+  const handleContent = (text: string) => {
+    content = text;
+    onContent?.(text);
+  };
+
+  try {
+    for (let step = 0; step < maxSteps; step++) {
+      handleContent('');
+      const message = await provider.complete({
+        messages,
+        tools: TOOL_DEFINITIONS,
+        allowTools: true,
+        signal,
+        onContent: handleContent,
+      });
+
+      if (message.toolCalls.length === 0) {
+        return { content: message.content, toolCalls, reachedStepLimit: false, cancelled: false };
+      }
+
+      messages.push({ role: 'assistant', content: message.content || null, tool_calls: message.toolCalls });
+      for (const call of message.toolCalls) {
+        if (signal?.aborted) throw signal.reason;
+        const record = await executeTool(context, call.id, call.function.name, call.function.arguments);
+        toolCalls.push(record);
+        onToolCall?.(record);
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(record.error ? { error: record.error } : record.result),
+        });
+      }
+    }
+
+    // Out of steps: ask for an answer from what has been gathered so far, without more tools
+    handleContent('');
+    const final = await provider.complete({
+      messages,
+      tools: TOOL_DEFINITIONS,
+      allowTools: false,
+      signal,
+      onContent: handleContent,
+    });
+    return { content: final.content, toolCalls, reachedStepLimit: true, cancelled: false };
+  } catch (error) {
+    // A cancelled run keeps the partial answer and the tool calls already made
+    if (signal?.aborted) {
+      return { content, toolCalls, reachedStepLimit: false, cancelled: true };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import type { ToolCallRecord } from './tools';
+
+/** One entry of the chat thread, as shown and as saved with the workspace. */
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  sql?: string;
+  /** The first `PREVIEW_ROWS` rows of the query result; `rowCount` counts them all */
+  data?: Record<string, unknown>[];
+  rowCount?: number;
+  error?: string;
+  toolCalls?: ToolCallRecord[];
+}
+
+export const GREETING_ID = 'greeting';
+
+/** Result rows kept on a message; the full result is queried again for a download */
+export const PREVIEW_ROWS = 100;
+
+/** Result rows shown in the thread; saved messages keep only these */
+export const SHOWN_ROWS = 5;
+
+// Shown above the thread; it is not part of the saved history or of the model's context
+export const createGreeting = (fileName: string): ChatMessage => ({
+  id: GREETING_ID,
+  type: 'assistant',
+  content: `Hi! I'm ready to help you analyze your data from **${fileName}**. I can answer questions about your dataset, create visualizations, and run SQL queries.\n\nHere are some things you can ask me:\n• "Show me the top 10 rows by revenue"\n• "What's the correlation between price and sales?"\n• "Create a chart of monthly trends"\n• "How many unique customers do we have?"\n\nWhat would you like to explore?`,
+  timestamp: new Date(),
+});
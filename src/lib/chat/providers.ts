@@ -0,0 +1,216 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { LLMSettings } from './settings';
+
+// Chat completion backends. All providers speak the OpenAI message format and
+// stream their answer through `onContent`.
+
+export interface ApiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ApiMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ApiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ToolDefinition {
+  type: 'function';
+  function: { name: string; description: string; parameters: object };
+}
+
+export interface CompletionRequest {
+  messages: ApiMessage[];
+  tools: readonly ToolDefinition[];
+  allowTools: boolean;
+  signal?: AbortSignal;
+  onContent: (content: string) => void;
+}
+
+export interface CompletionResponse {
+  content: string;
+  toolCalls: ApiToolCall[];
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+const createOpenAIProvider = (settings: LLMSettings, name: string, baseURL?: string): LLMProvider => {
+  const client = new OpenAI({
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+    apiKey: settings.apiKey || 'not-needed',
+    baseURL,
+    dangerouslyAllowBrowser: true,
+  });
+
+  return {
+    name,
+    async complete({ messages, tools, allowTools, signal, onContent }) {
+      const stream = await client.chat.completions.create(
+        {
+          model: settings.model,
+          messages: messages as ChatCompletionMessageParam[],
+          tools: tools as unknown as ChatCompletionTool[],
+          tool_choice: allowTools ? 'auto' : 'none',
+          max_tokens: settings.maxTokens,
+          temperature: settings.temperature,
+          stream: true,
+        },
+        { signal }
+      );
+
+      // Tool calls arrive as fragments keyed by index; their arguments are concatenated
+      let content = '';
+      const toolCalls: ApiToolCall[] = [];
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          onContent(content);
+        }
+        delta.tool_calls?.forEach(fragment => {
+          const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        });
+      }
+
+      return { content, toolCalls: toolCalls.filter(Boolean) };
+    },
+  };
+};
+
+interface ColumnSummary {
+  column: string;
+  type: string;
+}
+
+const quote = (col: string) => `"${col.replace(/"/g, '""')}"`;
+
+const lastUserQuery = (messages: ApiMessage[]) =>
+  [...messages].reverse().find(m => m.role === 'user')?.content as string || '';
+
+const toolResults = (messages: ApiMessage[]) => {
+  const calls = new Map<string, ApiToolCall>();
+  messages.forEach(m => {
+    if (m.role === 'assistant') m.tool_calls?.forEach(call => calls.set(call.id, call));
+  });
+  return messages
+    .filter((m): m is Extract<ApiMessage, { role: 'tool' }> => m.role === 'tool')
+    .map(m => ({ name: calls.get(m.tool_call_id)?.function.name || '', result: JSON.parse(m.content) }));
+};
+
+// Picks the follow-up tool for a question once the column types are known
+const planToolCall = (query: string, columns: ColumnSummary[]) => {
+  const lower = query.toLowerCase();
+  const numeric = columns.filter(c => c.type === 'numeric').map(c => c.column);
+  const text = columns.filter(c => c.type !== 'numeric').map(c => c.column);
+  const metric = numeric.find(col => lower.includes(col.toLowerCase())) ||
+    numeric.find(col => !/(^|_)id$/i.test(col)) ||
+    numeric[0];
+  const dateColumn = columns.map(c => c.column).find(col => /date|time|month|year|day/i.test(col));
+
+  if (/chart|plot|visual|graph|trend/.test(lower) && (text[0] || dateColumn)) {
+    const isTrend = /trend|month|time|daily|weekly/.test(lower) && dateColumn;
+    return {
+      name: 'create_visualization',
+      args: { type: isTrend ? 'line' : 'bar', x: isTrend ? dateColumn : text[0], ...(metric ? { y: metric } : {}) },
+    };
+  }
+  if (/correlation|relationship|insight|explain/.test(lower)) {
+    return { name: 'explain_insights', args: { topic: query } };
+  }
+  if (/top|highest|largest|best/.test(lower) && metric) {
+    return { name: 'run_sql_query', args: { query: `SELECT * FROM df ORDER BY ${quote(metric)} DESC LIMIT 10` } };
+  }
+  if (/count|how many|unique|distinct/.test(lower) && columns.length > 0) {
+    const col = columns[0].column;
+    return { name: 'run_sql_query', args: { query: `SELECT COUNT(*) AS total_records, COUNT(DISTINCT ${quote(col)}) AS unique_${col} FROM df` } };
+  }
+  if (/total|sum|average|mean/.test(lower) && metric) {
+    return { name: 'run_sql_query', args: { query: `SELECT SUM(${quote(metric)}) AS total_${metric}, AVG(${quote(metric)}) AS average_${metric} FROM df` } };
+  }
+  return null;
+};
+
+const summarize = (name: string, result: Record<string, unknown>) => {
+  if (!result || result.error) return `The ${name} tool failed: ${result?.error}`;
+  switch (name) {
+    case 'analyze_data': {
+      const columns = result.columns as ColumnSummary[];
+      return `The dataset has ${Number(result.rowCount).toLocaleString()} rows and ${columns.length} columns: ${columns.map(c => `${c.column} (${c.type})`).join(', ')}.`;
+    }
+    case 'run_sql_query': {
+      // Only the shape of the result: the answer goes into the thread, which later
+      // requests to a remote model carry, so it must not hold row values
+      const rows = result.rows as Record<string, unknown>[];
+      const columns = rows[0] ? ` with the columns ${Object.keys(rows[0]).join(', ')}; they are shown below` : '';
+      return `The query returned ${Number(result.rowCount).toLocaleString()} rows${columns}.`;
+    }
+    case 'create_visualization':
+      return `I created a ${result.type} chart "${result.title}" with ${result.points} data points.`;
+    case 'explain_insights': {
+      const facts = result.facts as { column: string; strongestCorrelations?: { column: string; pearson: number }[] }[];
+      const lines = facts
+        .filter(f => f.strongestCorrelations?.length)
+        .map(f => `• ${f.column} is most correlated with ${f.strongestCorrelations![0].column} (r = ${f.strongestCorrelations![0].pearson})`);
+      return lines.length > 0 ? `Here is what stands out:\n${lines.join('\n')}` : `I gathered statistics for ${facts.length} columns.`;
+    }
+    default:
+      return '';
+  }
+};
+
+/**
+ * Deterministic provider that never leaves the browser: it calls analyze_data,
+ * then one tool chosen by keywords, and answers from the tool results.
+ */
+const createOfflineProvider = (): LLMProvider => ({
+  name: 'Offline stub',
+  async complete({ messages, allowTools, signal, onContent }) {
+    if (signal?.aborted) throw signal.reason;
+    const results = toolResults(messages);
+    const call = (name: string, args: Record<string, unknown>) => ({
+      content: '',
+      toolCalls: [{ id: `stub_${results.length}_${name}`, type: 'function' as const, function: { name, arguments: JSON.stringify(args) } }],
+    });
+
+    if (allowTools && results.length === 0) {
+      return call('analyze_data', {});
+    }
+    if (allowTools && results.length === 1 && results[0].name === 'analyze_data') {
+      const planned = planToolCall(lastUserQuery(messages), results[0].result.columns || []);
+      if (planned) return call(planned.name, planned.args);
+    }
+
+    const answer = results.map(r => summarize(r.name, r.result)).filter(Boolean).join('\n\n') ||
+      'I could not find anything to report for this question.';
+    // Emit word by word so the streaming path is exercised like a real model
+    let content = '';
+    for (const word of answer.split(/(?<=\s)/)) {
+      if (signal?.aborted) throw signal.reason;
+      content += word;
+      onContent(content);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return { content, toolCalls: [] };
+  },
+});
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'offline':
+      return createOfflineProvider();
+    case 'openai-compatible':
+      return createOpenAIProvider(settings, 'OpenAI-compatible', settings.baseUrl);
+    default:
+      return createOpenAIProvider(settings, 'OpenAI');
+  }
+};
@@ -0,0 +1,60 @@
+import type { PrivacyMode } from '@/lib/pii';
+
+export type ProviderId = 'openai' | 'openai-compatible' | 'offline';
+
+export interface LLMSettings {
+  provider: ProviderId;
+  apiKey: string;
+  /** Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** How columns flagged as personal data are sent to the model */
+  privacy: PrivacyMode;
+}
+
+export const PROVIDERS: { id: ProviderId; name: string; description: string }[] = [
+  { id: 'openai', name: 'OpenAI', description: 'api.openai.com with your API key' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible', description: 'Any server exposing /v1/chat/completions, such as Ollama or llama.cpp' },
+  { id: 'offline', name: 'Offline stub', description: 'Deterministic local responses, no network access' },
+];
+
+export const DEFAULT_SETTINGS: LLMSettings = {
+  provider: 'openai',
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'gpt-4o-mini',
+  temperature: 0.7,
+  maxTokens: 1000,
+  privacy: 'mask',
+};
+
+/** Fills in fields added since the settings were saved. */
+export const normalizeSettings = (saved: Partial<LLMSettings>): LLMSettings => ({ ...DEFAULT_SETTINGS, ...saved });
+
+// Settings are saved with the workspace in IndexedDB. Earlier versions kept
+// them in localStorage, where they are read once to seed the first workspace.
+const LEGACY_SETTINGS = 'llm_settings';
+const LEGACY_API_KEY = 'openai_api_key';
+
+export const loadLegacySettings = (): LLMSettings | null => {
+  try {
+    const saved = localStorage.getItem(LEGACY_SETTINGS);
+    if (saved) return normalizeSettings(JSON.parse(saved));
+    const apiKey = localStorage.getItem(LEGACY_API_KEY);
+    if (apiKey) return { ...DEFAULT_SETTINGS, apiKey };
+  } catch (error) {
+    console.error('Failed to read model settings:', error);
+  }
+  return null;
+};
+
+export const clearLegacySettings = () => {
+  localStorage.removeItem(LEGACY_SETTINGS);
+  localStorage.removeItem(LEGACY_API_KEY);
+};
+
+/** Whether the provider can be called with these settings (OpenAI needs a key). */
+export const isConfigured = (settings: LLMSettings) =>
+  settings.provider !== 'openai' || settings.apiKey.trim() !== '';
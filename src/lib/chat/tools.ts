@@ -0,0 +1,347 @@
+import { runQuery } from '@/lib/sql';
+import { profileRows } from '@/lib/profiler';
+import { correlationOf, rankPairs } from '@/lib/correlation';
+import { NO_PRIVACY, queryOutputKinds, redactRows, redactValue, scrubText, type Privacy } from '@/lib/pii';
+import type { ColumnProfile, DatasetProfile } from '@/lib/profile';
+
+// Tools exposed to the model through OpenAI function calling. Every tool runs
+// locally against the loaded dataset; only its (truncated) result goes back to
+// the model, with personal data redacted as the privacy setting asks.
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie';
+export type Aggregation = 'sum' | 'avg' | 'count' | 'max' | 'min';
+
+export interface ChartSpec {
+  type: ChartType;
+  x: string;
+  y?: string;
+  aggregation: Aggregation;
+  title: string;
+  data: { name: string | number; value: number }[];
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  chart?: ChartSpec;
+}
+
+export interface ToolContext {
+  data: Record<string, unknown>[];
+  /** Profile of `data` when the worker has finished it; computed on demand otherwise */
+  profile?: DatasetProfile | null;
+  /** Applied to every result before it is returned to the model; nothing is redacted without it */
+  privacy?: Privacy;
+}
+
+interface ToolOutput {
+  result: unknown;
+  chart?: ChartSpec;
+}
+
+// Caps how much of a result set is echoed back into the model's context
+const MAX_RESULT_ROWS = 50;
+
+export const TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'analyze_data',
+      description: 'Generate a statistical summary of the dataset: row count, column types and meanings (email, currency, identifier...), null counts, numeric statistics and the most frequent values of text columns.',
+      parameters: { type: 'object', properties: {}, additionalProperties: false },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'run_sql_query',
+      description: "Execute a SQLite query against the dataset. The active dataset is the table 'df'; other workspace tables listed in the system prompt can be queried and joined by name. Returns the column names, the row count and up to 50 rows.",
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'A single SQLite SELECT statement' },
+        },
+        required: ['query'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_visualization',
+      description: 'Create a chart that is shown to the user. Bar, line and pie charts aggregate y per distinct x value (count rows when y is omitted); scatter plots x against y.',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['bar', 'line', 'scatter', 'pie'] },
+          x: { type: 'string', description: 'Column for the x axis or pie categories' },
+          y: { type: 'string', description: 'Numeric column for the y axis or pie slice sizes' },
+          options: {
+            type: 'object',
+            properties: {
+              aggregation: { type: 'string', enum: ['sum', 'avg', 'count', 'max', 'min'] },
+              limit: { type: 'integer', description: 'Maximum number of categories to show (default 20)' },
+              title: { type: 'string' },
+            },
+            additionalProperties: false,
+          },
+        },
+        required: ['type', 'x'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'explain_insights',
+      description: 'Gather facts about a topic to interpret: distribution, top values and correlations of the columns whose names match the topic (or of all columns when none match).',
+      parameters: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string', description: 'A column name or a short description of what to explain' },
+        },
+        required: ['topic'],
+        additionalProperties: false,
+      },
+    },
+  },
+] as const;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+const columnsOf = (data: Record<string, unknown>[]) => Object.keys(data[0] || {});
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const profileOf = (context: ToolContext) => context.profile || profileRows(context.data);
+
+const numericSummary = ({ numeric }: ColumnProfile) => numeric && {
+  min: numeric.min,
+  max: numeric.max,
+  mean: round(numeric.mean),
+  median: round(numeric.median),
+  p25: round(numeric.quantiles.p25),
+  p75: round(numeric.quantiles.p75),
+  stddev: round(numeric.stddev),
+  sum: round(numeric.sum),
+};
+
+const privacyOf = (context: ToolContext) => context.privacy || NO_PRIVACY;
+
+// Columns left out entirely under the 'omit' privacy mode
+const isOmitted = (column: string, privacy: Privacy) => privacy.mode === 'omit' && privacy.columns.has(column);
+
+const topValues = (column: ColumnProfile, privacy: Privacy, limit = 5) => {
+  const kind = privacy.columns.get(column.name);
+  const top = column.topValues.slice(0, limit);
+  return {
+    distinct: column.uniqueCount,
+    top: top.map(({ value, count }) => ({
+      value: kind ? redactValue(value, kind, privacy.mode) : scrubText(value, privacy.mode, privacy.values),
+      count,
+    })),
+  };
+};
+
+const analyzeData = (context: ToolContext) => {
+  const profile = profileOf(context);
+  const privacy = privacyOf(context);
+  const columns = profile.columns.filter(column => !isOmitted(column.name, privacy)).map(column => {
+    const base = {
+      column: column.name,
+      type: column.type,
+      semantic: column.semantic?.type,
+      personalData: privacy.mode !== 'off' ? column.pii : undefined,
+      confidence: round(column.confidence),
+      nulls: column.missingCount,
+    };
+    if (column.type === 'numeric') return { ...base, stats: numericSummary(column) };
+    if (column.type === 'date') return { ...base, ...topValues(column, privacy), range: column.dates && { min: column.dates.min, max: column.dates.max } };
+    return { ...base, ...topValues(column, privacy) };
+  });
+
+  return { rowCount: profile.rowCount, columnCount: columns.length, columns };
+};
+
+const runSqlQuery = async (context: ToolContext, args: Record<string, unknown>) => {
+  const query = String(args.query || '');
+  if (!query.trim()) throw new Error('query is required');
+
+  const result = await runQuery(query);
+  const privacy = privacyOf(context);
+  // Result columns are flagged by the columns they are computed from, whatever they are named
+  const redaction = { ...privacy, columns: queryOutputKinds(query, result.columns, privacy.columns) };
+  return {
+    query,
+    columns: result.columns.filter(column => !isOmitted(column, redaction)),
+    rowCount: result.rowCount,
+    rows: redactRows(result.rows.slice(0, MAX_RESULT_ROWS), redaction),
+    truncated: result.rowCount > MAX_RESULT_ROWS,
+  };
+};
+
+const aggregate = (values: number[], aggregation: Aggregation) => {
+  if (aggregation === 'count') return values.length;
+  if (values.length === 0) return 0;
+  switch (aggregation) {
+    case 'avg':
+      return values.reduce((sum, val) => sum + val, 0) / values.length;
+    case 'max':
+      return Math.max(...values);
+    case 'min':
+      return Math.min(...values);
+    default:
+      return values.reduce((sum, val) => sum + val, 0);
+  }
+};
+
+export const buildChart = (
+  data: Record<string, unknown>[],
+  type: ChartType,
+  x: string,
+  y: string | undefined,
+  options: { aggregation?: Aggregation; limit?: number; title?: string } = {}
+): ChartSpec => {
+  const columns = columnsOf(data);
+  if (!columns.includes(x)) throw new Error(`Unknown column: ${x}`);
+  if (y && !columns.includes(y)) throw new Error(`Unknown column: ${y}`);
+
+  const aggregation: Aggregation = y ? options.aggregation || 'sum' : 'count';
+  const title = options.title || (y ? `${aggregation} of ${y} by ${x}` : `Count by ${x}`);
+
+  if (type === 'scatter') {
+    if (!y) throw new Error('Scatter plots need a y column');
+    const points = data
+      .filter(row => typeof row[x] === 'number' && typeof row[y] === 'number')
+      .map(row => ({ name: row[x] as number, value: row[y] as number }))
+      .slice(0, 1000);
+    return { type, x, y, aggregation, title, data: points };
+  }
+
+  const groups = new Map<string, number[]>();
+  data.forEach(row => {
+    const key = isBlank(row[x]) ? 'Unknown' : String(row[x]);
+    if (!groups.has(key)) groups.set(key, []);
+    const value = y ? Number(row[y]) : 1;
+    if (!y || (!isBlank(row[y]) && !isNaN(value))) groups.get(key)!.push(value);
+  });
+
+  let points = [...groups.entries()].map(([name, values]) => ({
+    name,
+    value: round(aggregate(values, aggregation)),
+  }));
+  // Line charts keep the natural x order; the others rank categories by value
+  if (type === 'line') {
+    points.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  } else {
+    points.sort((a, b) => b.value - a.value);
+  }
+  points = points.slice(0, options.limit || 20);
+
+  return { type, x, y, aggregation, title, data: points };
+};
+
+const createVisualization = (context: ToolContext, args: Record<string, unknown>): ToolOutput => {
+  const options = (args.options || {}) as { aggregation?: Aggregation; limit?: number; title?: string };
+  const chart = buildChart(
+    context.data,
+    args.type as ChartType,
+    String(args.x || ''),
+    args.y ? String(args.y) : undefined,
+    options
+  );
+
+  // The chart shown to the user keeps the real labels; the model gets them redacted
+  const privacy = privacyOf(context);
+  const kind = privacy.columns.get(chart.x);
+  const points = chart.data.slice(0, 20);
+  return {
+    chart,
+    result: {
+      title: chart.title,
+      type: chart.type,
+      points: chart.data.length,
+      data: redactRows(points, { ...privacy, columns: kind ? new Map([['name', kind]]) : new Map() }),
+    },
+  };
+};
+
+const explainInsights = (context: ToolContext, args: Record<string, unknown>) => {
+  const { data } = context;
+  const profile = profileOf(context);
+  const privacy = privacyOf(context);
+  const topic = String(args.topic || '');
+  const words = topic.toLowerCase().split(/[^a-z0-9_]+/).filter(Boolean);
+  const allColumns = columnsOf(data).filter(column => !isOmitted(column, privacy));
+  const matched = allColumns.filter(col =>
+    words.some(word => col.toLowerCase().includes(word) || word.includes(col.toLowerCase()))
+  );
+  const columns = matched.length > 0 ? matched : allColumns;
+  const numeric = profile.columns.filter(col => col.type === 'numeric').map(col => col.name);
+
+  const facts = columns.map(column => {
+    const columnProfile = profile.columns.find(col => col.name === column)!;
+    if (!numeric.includes(column)) {
+      return { column, type: columnProfile.type, ...topValues(columnProfile, privacy) };
+    }
+    const correlations = rankPairs(profile.correlation, 'pearson')
+      .filter(pair => pair.a === column || pair.b === column)
+      .slice(0, 3)
+      .map(pair => {
+        const other = pair.a === column ? pair.b : pair.a;
+        const spearman = correlationOf(profile.correlation, 'spearman', column, other);
+        return { column: other, pearson: round(pair.value), spearman: spearman === null ? null : round(spearman) };
+      });
+    return { column, type: 'numeric', stats: numericSummary(columnProfile), strongestCorrelations: correlations };
+  });
+
+  return { topic, matchedColumns: matched, rowCount: data.length, facts };
+};
+
+/** Executes one tool call locally. Failures are captured on the record, not thrown. */
+export const executeTool = async (
+  context: ToolContext,
+  id: string,
+  name: string,
+  rawArguments: string
+): Promise<ToolCallRecord> => {
+  const record: ToolCallRecord = { id, name, arguments: {} };
+
+  try {
+    record.arguments = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    record.error = `Invalid JSON arguments: ${rawArguments}`;
+    return record;
+  }
+
+  try {
+    switch (name) {
+      case 'analyze_data':
+        record.result = analyzeData(context);
+        break;
+      case 'run_sql_query':
+        record.result = await runSqlQuery(context, record.arguments);
+        break;
+      case 'create_visualization': {
+        const output = createVisualization(context, record.arguments);
+        record.result = output.result;
+        record.chart = output.chart;
+        break;
+      }
+      case 'explain_insights':
+        record.result = explainInsights(context, record.arguments);
+        break;
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return record;
+};
@@ -0,0 +1,301 @@
+// Compact column-oriented storage for imported data. Numbers live in a
+// Float64Array (NaN marks a missing value) and strings are dictionary-encoded,
+// so repeated categories cost four bytes per row instead of a string each.
+
+export type Column =
+  | { name: string; kind: 'number'; values: Float64Array }
+  /** Code 0 is reserved for missing values; `dictionary[0]` is unused */
+  | { name: string; kind: 'string'; codes: Uint32Array; dictionary: string[] }
+  | { name: string; kind: 'mixed'; values: unknown[] };
+
+export interface ColumnarTable {
+  rowCount: number;
+  columns: Column[];
+}
+
+const INITIAL_CAPACITY = 1024;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const grow = <T extends Float64Array | Uint32Array>(array: T, needed: number): T => {
+  if (needed <= array.length) return array;
+  const next = new (array.constructor as { new (length: number): T })(Math.max(needed, array.length * 2));
+  next.set(array);
+  return next;
+};
+
+/** Accumulates one column value by value, widening its storage when types mix. */
+export class ColumnBuilder {
+  private kind: 'empty' | 'number' | 'string' | 'mixed' = 'empty';
+  private length = 0;
+  private numbers = new Float64Array(0);
+  private codes = new Uint32Array(0);
+  private dictionary: string[] = [''];
+  private lookup = new Map<string, number>();
+  private mixed: unknown[] = [];
+
+  constructor(readonly name: string) {}
+
+  push(value: unknown) {
+    if (isMissing(value)) {
+      this.pushMissing();
+      return;
+    }
+
+    if (this.kind === 'empty') {
+      this.kind = typeof value === 'number' ? 'number' : typeof value === 'string' ? 'string' : 'mixed';
+      this.fillMissing();
+    } else if (
+      (this.kind === 'number' && typeof value !== 'number') ||
+      (this.kind === 'string' && typeof value !== 'string')
+    ) {
+      this.toMixed();
+    }
+
+    const index = this.length++;
+    switch (this.kind) {
+      case 'number':
+        this.numbers = grow(this.numbers, this.length);
+        this.numbers[index] = value as number;
+        break;
+      case 'string': {
+        let code = this.lookup.get(value as string);
+        if (code === undefined) {
+          code = this.dictionary.length;
+          this.dictionary.push(value as string);
+          this.lookup.set(value as string, code);
+        }
+        this.codes = grow(this.codes, this.length);
+        this.codes[index] = code;
+        break;
+      }
+      default:
+        this.mixed.push(value);
+    }
+  }
+
+  private pushMissing() {
+    const index = this.length++;
+    if (this.kind === 'number') {
+      this.numbers = grow(this.numbers, this.length);
+      this.numbers[index] = NaN;
+    } else if (this.kind === 'string') {
+      this.codes = grow(this.codes, this.length);
+      this.codes[index] = 0;
+    } else if (this.kind === 'mixed') {
+      this.mixed.push(null);
+    }
+  }
+
+  // Missing values seen before the column's kind was known
+  private fillMissing() {
+    if (this.kind === 'number') {
+      this.numbers = new Float64Array(Math.max(INITIAL_CAPACITY, this.length)).fill(NaN);
+    } else if (this.kind === 'string') {
+      this.codes = new Uint32Array(Math.max(INITIAL_CAPACITY, this.length));
+    } else {
+      this.mixed = new Array(this.length).fill(null);
+    }
+  }
+
+  private toMixed() {
+    const values: unknown[] = new Array(this.length);
+    for (let i = 0; i < this.length; i++) {
+      values[i] = this.kind === 'number'
+        ? (isNaN(this.numbers[i]) ? null : this.numbers[i])
+        : (this.codes[i] === 0 ? null : this.dictionary[this.codes[i]]);
+    }
+    this.kind = 'mixed';
+    this.mixed = values;
+    this.numbers = new Float64Array(0);
+    this.codes = new Uint32Array(0);
+    this.dictionary = [''];
+    this.lookup.clear();
+  }
+
+  build(): Column {
+    switch (this.kind) {
+      case 'number':
+        return { name: this.name, kind: 'number', values: this.numbers.slice(0, this.length) };
+      case 'string':
+        return { name: this.name, kind: 'string', codes: this.codes.slice(0, this.length), dictionary: this.dictionary };
+      case 'mixed':
+        return { name: this.name, kind: 'mixed', values: this.mixed };
+      default:
+        return { name: this.name, kind: 'mixed', values: new Array(this.length).fill(null) };
+    }
+  }
+}
+
+/** Builds a table from row objects whose keys may vary; new columns are backfilled with missing values. */
+export class TableBuilder {
+  private builders = new Map<string, ColumnBuilder>();
+  rowCount = 0;
+
+  constructor(columns: string[] = []) {
+    columns.forEach(name => this.builders.set(name, new ColumnBuilder(name)));
+  }
+
+  addRow(row: Record<string, unknown>) {
+    for (const name of Object.keys(row)) {
+      if (this.builders.has(name)) continue;
+      const builder = new ColumnBuilder(name);
+      for (let i = 0; i < this.rowCount; i++) builder.push(null);
+      this.builders.set(name, builder);
+    }
+    this.builders.forEach(builder => builder.push(row[builder.name]));
+    this.rowCount++;
+  }
+
+  build(): ColumnarTable {
+    return { rowCount: this.rowCount, columns: [...this.builders.values()].map(builder => builder.build()) };
+  }
+}
+
+export const getValue = (column: Column, index: number): unknown => {
+  switch (column.kind) {
+    case 'number':
+      return isNaN(column.values[index]) ? null : column.values[index];
+    case 'string':
+      return column.codes[index] === 0 ? null : column.dictionary[column.codes[index]];
+    default:
+      return column.values[index] ?? null;
+  }
+};
+
+/** Buffers that can be moved to another thread without copying. */
+export const transferables = (table: ColumnarTable) =>
+  table.columns.flatMap(col =>
+    col.kind === 'number' ? [col.values.buffer] : col.kind === 'string' ? [col.codes.buffer] : []
+  );
+
+const ROW_INDEX = Symbol('row index');
+
+type RowTarget = { [ROW_INDEX]: number };
+
+// Tables behind row views, so workers and storage get the compact table back
+const viewTables = new WeakMap<object, ColumnarTable>();
+
+const indexOf = (property: string | symbol) => {
+  if (typeof property !== 'string') return -1;
+  const code = property.charCodeAt(0);
+  if (code < 48 || code > 57) return -1;
+  const index = Number(property);
+  return Number.isInteger(index) && String(index) === property ? index : -1;
+};
+
+/**
+ * Rows of a table in the shape the rest of the app works with, without
+ * materializing them. Each row read from the view is a small proxy that looks
+ * its values up in the columns, so a dataset costs its columns and nothing per
+ * row. The view is read-only.
+ */
+export const rowView = (table: ColumnarTable): Record<string, unknown>[] => {
+  const byName = new Map(table.columns.map(column => [column.name, column]));
+  const names = table.columns.map(column => column.name);
+  const column = (property: string | symbol) => (typeof property === 'string' ? byName.get(property) : undefined);
+
+  const rowHandler: ProxyHandler<RowTarget> = {
+    get: (target, property) => {
+      const col = column(property);
+      return col ? getValue(col, target[ROW_INDEX]) : Reflect.get(target, property);
+    },
+    has: (_target, property) => !!column(property),
+    ownKeys: () => names,
+    getOwnPropertyDescriptor: (target, property) => {
+      const col = column(property);
+      return col ? { value: getValue(col, target[ROW_INDEX]), writable: false, enumerable: true, configurable: true } : undefined;
+    },
+    set: () => false,
+    deleteProperty: () => false,
+    defineProperty: () => false,
+  };
+  const rowAt = (index: number) => new Proxy({ [ROW_INDEX]: index } as RowTarget, rowHandler) as Record<string, unknown>;
+  const inRange = (index: number) => index >= 0 && index < table.rowCount;
+
+  const view = new Proxy<Record<string, unknown>[]>([], {
+    get: (target, property, receiver) => {
+      if (property === 'length') return table.rowCount;
+      const index = indexOf(property);
+      if (index >= 0) return inRange(index) ? rowAt(index) : undefined;
+      return Reflect.get(target, property, receiver);
+    },
+    has: (target, property) => {
+      const index = indexOf(property);
+      return index >= 0 ? inRange(index) : Reflect.has(target, property);
+    },
+    ownKeys: (target) => [...Array.from({ length: table.rowCount }, (_, i) => String(i)), ...Reflect.ownKeys(target)],
+    getOwnPropertyDescriptor: (target, property) => {
+      const index = indexOf(property);
+      if (index >= 0) return inRange(index) ? { value: rowAt(index), writable: false, enumerable: true, configurable: true } : undefined;
+      const descriptor = Reflect.getOwnPropertyDescriptor(target, property);
+      return property === 'length' && descriptor ? { ...descriptor, value: table.rowCount } : descriptor;
+    },
+    set: () => false,
+    deleteProperty: () => false,
+    defineProperty: () => false,
+  });
+  viewTables.set(view, table);
+  return view;
+};
+
+export const fromRows = (rows: Record<string, unknown>[]) => {
+  const builder = new TableBuilder();
+  rows.forEach(row => builder.addRow(row));
+  return builder.build();
+};
+
+/** The table behind a row view; other row arrays are converted. */
+export const toTable = (rows: Record<string, unknown>[]) => viewTables.get(rows) || fromRows(rows);
+
+interface EncodedColumn {
+  name: string;
+  kind: Column['kind'];
+  byteLength: number;
+  dictionary?: string[];
+  values?: unknown[];
+}
+
+/**
+ * Packs a table into one binary blob: a 4-byte header length, a JSON header
+ * describing the columns, then the raw bytes of every typed array in order.
+ */
+export const encodeTable = (table: ColumnarTable): Blob => {
+  const buffers: ArrayBuffer[] = [];
+  const columns: EncodedColumn[] = table.columns.map(column => {
+    switch (column.kind) {
+      case 'number':
+        buffers.push(column.values.slice().buffer);
+        return { name: column.name, kind: column.kind, byteLength: column.values.byteLength };
+      case 'string':
+        buffers.push(column.codes.slice().buffer);
+        return { name: column.name, kind: column.kind, byteLength: column.codes.byteLength, dictionary: column.dictionary };
+      default:
+        return { name: column.name, kind: column.kind, byteLength: 0, values: column.values };
+    }
+  });
+
+  const header = new TextEncoder().encode(JSON.stringify({ rowCount: table.rowCount, columns }));
+  return new Blob([new Uint32Array([header.byteLength]), header, ...buffers]);
+};
+
+export const decodeTable = (buffer: ArrayBuffer): ColumnarTable => {
+  const headerLength = new Uint32Array(buffer.slice(0, 4))[0];
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 4, headerLength)));
+  let offset = 4 + headerLength;
+
+  const columns = (header.columns as EncodedColumn[]).map((column): Column => {
+    // Copies keep every typed array aligned on its own buffer
+    const bytes = buffer.slice(offset, offset + column.byteLength);
+    offset += column.byteLength;
+    switch (column.kind) {
+      case 'number':
+        return { name: column.name, kind: 'number', values: new Float64Array(bytes) };
+      case 'string':
+        return { name: column.name, kind: 'string', codes: new Uint32Array(bytes), dictionary: column.dictionary! };
+      default:
+        return { name: column.name, kind: 'mixed', values: column.values! };
+    }
+  });
+  return { rowCount: header.rowCount, columns };
+};
@@ -0,0 +1,144 @@
+// Pairwise Pearson and Spearman correlations between numeric columns. Each
+// pair uses the rows where both columns hold a number.
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationMatrix {
+  columns: string[];
+  /** Coefficients indexed [row][column]; null when a pair has too few rows or no variance */
+  pearson: (number | null)[][];
+  spearman: (number | null)[][];
+  /** Rows used for each pair */
+  counts: number[][];
+}
+
+export interface CorrelationPair {
+  a: string;
+  b: string;
+  value: number;
+  count: number;
+}
+
+export const CORRELATION_METHODS: { id: CorrelationMethod; label: string }[] = [
+  { id: 'pearson', label: 'Pearson' },
+  { id: 'spearman', label: 'Spearman (rank)' },
+];
+
+// Keeps the matrix readable and the scan cheap on wide tables
+export const MAX_CORRELATION_COLUMNS = 30;
+const MIN_PAIRS = 3;
+
+/** The value as a finite number, or NaN for blanks and text. */
+export const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : NaN;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// Centred on the column mean so the single-pass sums below don't lose precision
+const extractColumn = (rows: Record<string, unknown>[], column: string) => {
+  const values = new Float64Array(rows.length);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < rows.length; i++) {
+    values[i] = toNumber(rows[i][column]);
+    if (!isNaN(values[i])) {
+      sum += values[i];
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  for (let i = 0; i < values.length; i++) values[i] -= mean;
+  return values;
+};
+
+/** Ranks starting at 1, with tied values sharing the average of their ranks. Missing values stay NaN. */
+export const rank = (values: Float64Array) => {
+  const order: number[] = [];
+  for (let i = 0; i < values.length; i++) if (!isNaN(values[i])) order.push(i);
+  order.sort((a, b) => values[a] - values[b]);
+
+  const ranks = new Float64Array(values.length).fill(NaN);
+  for (let start = 0; start < order.length;) {
+    let end = start + 1;
+    while (end < order.length && values[order[end]] === values[order[start]]) end++;
+    const average = (start + end + 1) / 2;
+    for (let i = start; i < end; i++) ranks[order[i]] = average;
+    start = end;
+  }
+  return ranks;
+};
+
+const correlate = (x: Float64Array, y: Float64Array) => {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let i = 0; i < x.length; i++) {
+    const a = x[i];
+    const b = y[i];
+    if (isNaN(a) || isNaN(b)) continue;
+    n++;
+    sx += a;
+    sy += b;
+    sxx += a * a;
+    syy += b * b;
+    sxy += a * b;
+  }
+  const cov = sxy - (sx * sy) / n;
+  const varX = sxx - (sx * sx) / n;
+  const varY = syy - (sy * sy) / n;
+  if (n < MIN_PAIRS || varX <= 0 || varY <= 0) return { n, r: null };
+  // Rounding can push perfectly correlated columns just past ±1
+  return { n, r: Math.max(-1, Math.min(1, cov / Math.sqrt(varX * varY))) };
+};
+
+/**
+ * Correlation matrices for the given numeric columns. Spearman ranks each
+ * column over all of its values, which matches the textbook definition
+ * exactly when the pair has no missing values.
+ */
+export const correlationMatrix = (rows: Record<string, unknown>[], numericColumns: string[]): CorrelationMatrix => {
+  const columns = numericColumns.slice(0, MAX_CORRELATION_COLUMNS);
+  const values = columns.map(column => extractColumn(rows, column));
+  const ranks = values.map(rank);
+
+  const size = columns.length;
+  const pearson = Array.from({ length: size }, () => new Array<number | null>(size).fill(null));
+  const spearman = Array.from({ length: size }, () => new Array<number | null>(size).fill(null));
+  const counts = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const linear = correlate(values[i], values[j]);
+      const ranked = correlate(ranks[i], ranks[j]);
+      pearson[i][j] = pearson[j][i] = linear.r;
+      spearman[i][j] = spearman[j][i] = ranked.r;
+      counts[i][j] = counts[j][i] = linear.n;
+    }
+  }
+
+  return { columns, pearson, spearman, counts };
+};
+
+/** Every distinct pair of columns, strongest (by absolute coefficient) first. */
+export const rankPairs = (matrix: CorrelationMatrix, method: CorrelationMethod): CorrelationPair[] => {
+  const pairs: CorrelationPair[] = [];
+  const values = matrix[method];
+  for (let i = 0; i < matrix.columns.length; i++) {
+    for (let j = i + 1; j < matrix.columns.length; j++) {
+      const value = values[i][j];
+      if (value !== null) pairs.push({ a: matrix.columns[i], b: matrix.columns[j], value, count: matrix.counts[i][j] });
+    }
+  }
+  return pairs.sort((x, y) => Math.abs(y.value) - Math.abs(x.value));
+};
+
+export const correlationOf = (matrix: CorrelationMatrix, method: CorrelationMethod, a: string, b: string) => {
+  const i = matrix.columns.indexOf(a);
+  const j = matrix.columns.indexOf(b);
+  return i === -1 || j === -1 ? null : matrix[method][i][j];
+};
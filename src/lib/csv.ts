@@ -0,0 +1,27 @@
+const escapeCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes rows to RFC 4180 CSV, taking the header from the first row. */
+export const toCSV = (rows: Record<string, unknown>[], columns = Object.keys(rows[0] || {})) => {
+  if (columns.length === 0) return '';
+  return [
+    columns.map(escapeCell).join(','),
+    ...rows.map(row => columns.map(col => escapeCell(row[col])).join(',')),
+  ].join('\n');
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCSV = (rows: Record<string, unknown>[], fileName: string, columns?: string[]) =>
+  downloadFile(toCSV(rows, columns), fileName, 'text/csv');
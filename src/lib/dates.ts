@@ -0,0 +1,71 @@
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  format,
+  startOfDay,
+  startOfHour,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+
+// Bucketing of date values for time series. Buckets are keyed by the start of
+// the period, so sorting the keys sorts the series chronologically.
+
+export type Granularity = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const GRANULARITIES: { id: Granularity; label: string }[] = [
+  { id: 'hour', label: 'Hour' },
+  { id: 'day', label: 'Day' },
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+  { id: 'quarter', label: 'Quarter' },
+  { id: 'year', label: 'Year' },
+];
+
+/** Epoch milliseconds of a Date or date-like string, or NaN when it isn't one. */
+export const toTime = (value: unknown) => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Date.parse(value);
+};
+
+const START_OF: Record<Granularity, (time: number) => Date> = {
+  hour: startOfHour,
+  day: startOfDay,
+  week: time => startOfWeek(time, { weekStartsOn: 1 }),
+  month: startOfMonth,
+  quarter: startOfQuarter,
+  year: startOfYear,
+};
+
+/** Start of the period containing the time, in epoch milliseconds. */
+export const truncateTime = (time: number, granularity: Granularity) => START_OF[granularity](time).getTime();
+
+const ADD: Record<Granularity, (time: number, amount: number) => Date> = {
+  hour: addHours,
+  day: addDays,
+  week: addWeeks,
+  month: addMonths,
+  quarter: addQuarters,
+  year: addYears,
+};
+
+/** Start of the period after the one starting at the time, in epoch milliseconds. */
+export const nextPeriod = (time: number, granularity: Granularity) => ADD[granularity](time, 1).getTime();
+
+const LABEL_FORMAT: Record<Granularity, string> = {
+  hour: 'yyyy-MM-dd HH:00',
+  day: 'yyyy-MM-dd',
+  week: 'yyyy-MM-dd',
+  month: 'yyyy-MM',
+  quarter: "yyyy-'Q'Q",
+  year: 'yyyy',
+};
+
+export const formatPeriod = (time: number, granularity: Granularity) => format(time, LABEL_FORMAT[granularity]);
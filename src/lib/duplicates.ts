@@ -0,0 +1,166 @@
+import { isKeyName } from './semantic';
+import type { DatasetProfile } from './profile';
+
+// Duplicate detection: identical rows, repeated values in key columns and
+// text values that differ only by case, spacing or a few typos. Every check
+// produces groups of row indexes that dedupe() can collapse to one row each.
+
+export type KeepStrategy = 'first' | 'last' | 'complete';
+
+export const KEEP_STRATEGIES: { id: KeepStrategy; label: string }[] = [
+  { id: 'first', label: 'Keep first' },
+  { id: 'last', label: 'Keep last' },
+  { id: 'complete', label: 'Keep most complete' },
+];
+
+/** Row indexes that are duplicates of each other, in dataset order */
+export type DuplicateGroup = number[];
+
+export interface FuzzyCluster {
+  /** The distinct raw values treated as one, most frequent first */
+  values: { value: string; count: number }[];
+  rows: DuplicateGroup;
+}
+
+export interface FuzzyClusters {
+  clusters: FuzzyCluster[];
+  /** False when the column had too many distinct values for edit-distance matching */
+  compared: boolean;
+}
+
+// Comparing every pair of distinct values is quadratic, so larger columns only get case and spacing checks
+export const MAX_FUZZY_VALUES = 5000;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+/** Groups rows that hold the same values in the given columns. Rows missing every one of them are skipped. */
+export const findDuplicateGroups = (rows: Record<string, unknown>[], columns: string[]): DuplicateGroup[] => {
+  const seen = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const values = columns.map(column => (isMissing(row[column]) ? null : row[column]));
+    if (values.every(value => value === null)) return;
+    const key = JSON.stringify(values);
+    const group = seen.get(key);
+    if (group) group.push(index);
+    else seen.set(key, [index]);
+  });
+  return [...seen.values()].filter(group => group.length > 1);
+};
+
+/**
+ * Columns that look like they should identify a row: nearly every value is
+ * present and unique. Columns named like ids come first.
+ */
+export const suggestKeyColumns = (profile: DatasetProfile, minUniqueness = 0.95) =>
+  profile.columns
+    .filter(column => {
+      const present = column.count - column.missingCount;
+      return present > 0 && column.type !== 'boolean' && present / column.count >= minUniqueness && column.uniqueCount / present >= minUniqueness;
+    })
+    .sort((a, b) => Number(isKeyName(b.name)) - Number(isKeyName(a.name)) || b.uniqueCount - a.uniqueCount)
+    .map(column => column.name);
+
+export const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Levenshtein distance, giving up with Infinity once it exceeds `limit`. */
+export const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return Infinity;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, current[j]);
+    }
+    if (best > limit) return Infinity;
+    previous = current;
+  }
+  return previous[b.length] <= limit ? previous[b.length] : Infinity;
+};
+
+/**
+ * Clusters a text column's values that are equal after ignoring case and
+ * spacing, or within `maxDistance` edits of each other. Short values need
+ * proportionally fewer edits, so "cat" and "car" stay apart.
+ */
+export const findFuzzyClusters = (rows: Record<string, unknown>[], column: string, maxDistance: number): FuzzyClusters => {
+  const rawCounts = new Map<string, number>();
+  const rowsByNormal = new Map<string, number[]>();
+  const rawByNormal = new Map<string, Set<string>>();
+  rows.forEach((row, index) => {
+    if (isMissing(row[column])) return;
+    const raw = String(row[column]);
+    const normal = normalizeText(raw);
+    if (normal === '') return;
+    rawCounts.set(raw, (rawCounts.get(raw) || 0) + 1);
+    if (!rowsByNormal.has(normal)) {
+      rowsByNormal.set(normal, []);
+      rawByNormal.set(normal, new Set());
+    }
+    rowsByNormal.get(normal)!.push(index);
+    rawByNormal.get(normal)!.add(raw);
+  });
+
+  // Union-find over the normalized values
+  const normals = [...rowsByNormal.keys()];
+  const parent = normals.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const compared = maxDistance > 0 && normals.length <= MAX_FUZZY_VALUES;
+  if (compared) {
+    const byLength = normals.map((_, i) => i).sort((a, b) => normals[a].length - normals[b].length);
+    for (let x = 0; x < byLength.length; x++) {
+      const a = normals[byLength[x]];
+      for (let y = x + 1; y < byLength.length; y++) {
+        const b = normals[byLength[y]];
+        if (b.length - a.length > maxDistance) break;
+        const allowed = Math.min(maxDistance, Math.floor(b.length / 4));
+        if (allowed > 0 && editDistance(a, b, allowed) <= allowed) parent[find(byLength[x])] = find(byLength[y]);
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  normals.forEach((_, i) => {
+    const root = find(i);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(i);
+  });
+
+  const clusters: FuzzyCluster[] = [];
+  members.forEach(indexes => {
+    const raws = indexes.flatMap(i => [...rawByNormal.get(normals[i])!]);
+    // A single spelling repeated is a plain duplicate value, not a near-duplicate
+    if (raws.length < 2) return;
+    clusters.push({
+      values: raws.map(value => ({ value, count: rawCounts.get(value)! })).sort((a, b) => b.count - a.count),
+      rows: indexes.flatMap(i => rowsByNormal.get(normals[i])!).sort((a, b) => a - b),
+    });
+  });
+
+  return {
+    clusters: clusters.sort((a, b) => b.rows.length - a.rows.length),
+    compared: compared || maxDistance === 0,
+  };
+};
+
+const filledCount = (row: Record<string, unknown>) => Object.values(row).filter(value => !isMissing(value)).length;
+
+/** Drops all but one row of each group, keeping the rest of the dataset in order. */
+export const dedupe = (rows: Record<string, unknown>[], groups: DuplicateGroup[], keep: KeepStrategy) => {
+  const dropped = new Set<number>();
+  groups.forEach(group => {
+    let kept = keep === 'last' ? group[group.length - 1] : group[0];
+    if (keep === 'complete') {
+      // Ties go to the earliest row
+      group.forEach(index => {
+        if (filledCount(rows[index]) > filledCount(rows[kept])) kept = index;
+      });
+    }
+    group.forEach(index => {
+      if (index !== kept) dropped.add(index);
+    });
+  });
+  return rows.filter((_, index) => !dropped.has(index));
+};
@@ -0,0 +1,333 @@
+import { toNumber } from './correlation';
+import { formatPeriod, toTime, truncateTime } from './dates';
+import type { ColumnProfile, DatasetProfile } from './profile';
+
+// Order-level e-commerce analytics. Columns are mapped to roles (order id,
+// revenue, ...) by name and type, the user confirms the mapping, and the KPIs,
+// RFM segments and cohort retention are computed from the mapped columns.
+
+export type EcommerceRole = 'order_id' | 'customer_id' | 'revenue' | 'cost' | 'profit' | 'date' | 'product' | 'category';
+
+/** Column name per role; roles the dataset doesn't have are left out */
+export type RoleMapping = Partial<Record<EcommerceRole, string>>;
+
+export const ECOMMERCE_ROLES: { id: EcommerceRole; label: string }[] = [
+  { id: 'order_id', label: 'Order ID' },
+  { id: 'customer_id', label: 'Customer ID' },
+  { id: 'revenue', label: 'Revenue' },
+  { id: 'cost', label: 'Cost' },
+  { id: 'profit', label: 'Profit' },
+  { id: 'date', label: 'Order date' },
+  { id: 'product', label: 'Product' },
+  { id: 'category', label: 'Category' },
+];
+
+type ColumnTest = (column: ColumnProfile) => boolean;
+
+const isNumeric: ColumnTest = column => column.type === 'numeric';
+const isDate: ColumnTest = column => column.type === 'date';
+const isLabel: ColumnTest = column => column.type === 'text' || column.type === 'numeric';
+const isText: ColumnTest = column => column.type === 'text';
+
+// Name patterns per role, best match first; the last one is a looser fallback
+const ROLE_PATTERNS: Record<EcommerceRole, { test: ColumnTest; names: RegExp[] }> = {
+  order_id: { test: isLabel, names: [/^order[_\s-]?(id|no|number)$/i, /(order|invoice|transaction)[_\s-]?(id|no|number)/i, /^(order|invoice)$/i] },
+  customer_id: { test: isLabel, names: [/^customer[_\s-]?(id|no|number)$/i, /(customer|client|buyer|user)[_\s-]?(id|no|number)/i, /^(customer|client|buyer)$/i] },
+  revenue: {
+    test: isNumeric,
+    names: [/^(total[_\s-]?)?revenue$/i, /revenue|^sales$|gmv|order[_\s-]?total|total[_\s-]?(price|amount|sales)/i, /amount|sales|^total$/i],
+  },
+  cost: { test: isNumeric, names: [/^(total[_\s-]?)?cost$/i, /cogs|cost/i] },
+  profit: { test: isNumeric, names: [/^(total[_\s-]?|gross[_\s-]?|net[_\s-]?)?profit$/i, /profit/i] },
+  date: { test: isDate, names: [/^order[_\s-]?date$/i, /(order|purchase|invoice|transaction)[_\s-]?(date|time)|created/i, /date|time/i] },
+  product: { test: isText, names: [/^product([_\s-]?name)?$/i, /product|item|sku/i] },
+  category: { test: isText, names: [/^(product[_\s-]?)?category$/i, /category|department/i] },
+};
+
+/** Suggests a column for each role from the column names, types and semantic types. */
+export const detectRoles = (profile: DatasetProfile): RoleMapping => {
+  const mapping: RoleMapping = {};
+  const used = new Set<string>();
+  const claim = (role: EcommerceRole, column: ColumnProfile | undefined) => {
+    if (!column) return;
+    mapping[role] = column.name;
+    used.add(column.name);
+  };
+
+  ECOMMERCE_ROLES.forEach(({ id }) => {
+    const { test, names } = ROLE_PATTERNS[id];
+    const candidates = profile.columns.filter(column => !used.has(column.name) && test(column));
+    for (const pattern of names) {
+      const match = candidates.find(column => pattern.test(column.name));
+      if (match) return claim(id, match);
+    }
+    // Without a telling name, fall back on what the values look like
+    if (id === 'revenue') claim(id, candidates.find(column => column.semantic?.type === 'currency'));
+    if (id === 'date') claim(id, candidates[0]);
+  });
+  return mapping;
+};
+
+export interface EcommerceKpis {
+  revenue: number;
+  /** Distinct order ids, or rows when there is no order id */
+  orders: number;
+  /** Average order value */
+  aov: number;
+  customers: number | null;
+  cost: number | null;
+  /** From the profit column, or revenue minus cost */
+  profit: number | null;
+  /** Profit as a share of revenue */
+  margin: number | null;
+  /** Profit as a share of cost */
+  roi: number | null;
+  /** Historical lifetime value: revenue per customer */
+  ltv: number | null;
+  /** Orders per customer */
+  frequency: number | null;
+  /** Share of customers with more than one order */
+  repeatRate: number | null;
+}
+
+const valueOf = (row: Record<string, unknown>, column: string | undefined) => {
+  if (!column) return NaN;
+  return toNumber(row[column]);
+};
+
+const keyOf = (row: Record<string, unknown>, column: string) => {
+  const value = row[column];
+  return value === null || value === undefined || value === '' ? null : String(value);
+};
+
+// Rows without an order id each count as their own order
+const orderKey = (row: Record<string, unknown>, index: number, mapping: RoleMapping) =>
+  (mapping.order_id && keyOf(row, mapping.order_id)) || `#${index}`;
+
+export const computeKpis = (rows: Record<string, unknown>[], mapping: RoleMapping): EcommerceKpis => {
+  let revenue = 0;
+  let cost = 0;
+  let profit = 0;
+  const orders = new Set<string>();
+  const ordersByCustomer = new Map<string, Set<string>>();
+
+  rows.forEach((row, index) => {
+    const rowRevenue = valueOf(row, mapping.revenue);
+    const rowCost = valueOf(row, mapping.cost);
+    if (!isNaN(rowRevenue)) revenue += rowRevenue;
+    if (!isNaN(rowCost)) cost += rowCost;
+    const rowProfit = mapping.profit ? valueOf(row, mapping.profit) : rowRevenue - rowCost;
+    if (!isNaN(rowProfit)) profit += rowProfit;
+
+    const order = orderKey(row, index, mapping);
+    orders.add(order);
+    const customer = mapping.customer_id ? keyOf(row, mapping.customer_id) : null;
+    if (customer) {
+      if (!ordersByCustomer.has(customer)) ordersByCustomer.set(customer, new Set());
+      ordersByCustomer.get(customer)!.add(order);
+    }
+  });
+
+  const hasProfit = !!mapping.profit || (!!mapping.revenue && !!mapping.cost);
+  const customers = mapping.customer_id ? ordersByCustomer.size : null;
+  const repeat = [...ordersByCustomer.values()].filter(set => set.size > 1).length;
+  return {
+    revenue,
+    orders: orders.size,
+    aov: orders.size > 0 ? revenue / orders.size : 0,
+    customers,
+    cost: mapping.cost ? cost : null,
+    profit: hasProfit ? profit : null,
+    margin: hasProfit && revenue !== 0 ? profit / revenue : null,
+    roi: hasProfit && mapping.cost && cost !== 0 ? profit / cost : null,
+    ltv: customers ? revenue / customers : null,
+    frequency: customers ? orders.size / customers : null,
+    repeatRate: customers ? repeat / customers : null,
+  };
+};
+
+/** Revenue (or rows, without a revenue column) per value of a column, largest first */
+export const revenueBy = (rows: Record<string, unknown>[], column: string, mapping: RoleMapping, limit = 10) => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    const key = keyOf(row, column);
+    if (key === null) return;
+    const value = mapping.revenue ? valueOf(row, mapping.revenue) : 1;
+    if (!isNaN(value)) totals.set(key, (totals.get(key) || 0) + value);
+  });
+  return [...totals.entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+};
+
+export type RfmSegment =
+  | 'champions'
+  | 'loyal'
+  | 'potential'
+  | 'new'
+  | 'needs_attention'
+  | 'at_risk'
+  | 'hibernating'
+  | 'lost';
+
+export const RFM_SEGMENTS: { id: RfmSegment; label: string; description: string }[] = [
+  { id: 'champions', label: 'Champions', description: 'Bought recently, buy often' },
+  { id: 'loyal', label: 'Loyal', description: 'Buy often, not quite as recently' },
+  { id: 'potential', label: 'Potential loyalists', description: 'Recent customers with a few orders' },
+  { id: 'new', label: 'New', description: 'First order was recent' },
+  { id: 'needs_attention', label: 'Needs attention', description: 'Average recency and frequency' },
+  { id: 'at_risk', label: 'At risk', description: 'Used to buy often, not lately' },
+  { id: 'hibernating', label: 'Hibernating', description: 'Few orders, a while ago' },
+  { id: 'lost', label: 'Lost', description: 'Fewest orders, longest ago' },
+];
+
+export interface CustomerRfm {
+  customer: string;
+  /** Days between the customer's last order and the latest order in the data */
+  recency: number;
+  frequency: number;
+  monetary: number;
+  /** Scores from 1 to 5, higher is better */
+  r: number;
+  f: number;
+  m: number;
+  segment: RfmSegment;
+}
+
+const DAY = 86_400_000;
+
+// Score from 1 to 5 by the share of values strictly below; ties share a score
+const quintileScores = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const below = (value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+  return values.map(value => Math.min(5, 1 + Math.floor((5 * below(value)) / sorted.length)));
+};
+
+const segmentOf = (r: number, f: number): RfmSegment => {
+  if (r >= 4 && f >= 4) return 'champions';
+  if (r >= 3 && f >= 4) return 'loyal';
+  if (r >= 4 && f >= 2) return 'potential';
+  if (r >= 4) return 'new';
+  if (r === 3) return 'needs_attention';
+  if (f >= 3) return 'at_risk';
+  return r === 2 ? 'hibernating' : 'lost';
+};
+
+/** Recency, frequency and monetary scores per customer. Needs the customer, date and revenue roles. */
+export const rfmAnalysis = (rows: Record<string, unknown>[], mapping: RoleMapping): CustomerRfm[] => {
+  const { customer_id: customerColumn, date: dateColumn, revenue: revenueColumn } = mapping;
+  if (!customerColumn || !dateColumn || !revenueColumn) return [];
+
+  const customers = new Map<string, { last: number; orders: Set<string>; monetary: number }>();
+  let latest = -Infinity;
+  rows.forEach((row, index) => {
+    const customer = keyOf(row, customerColumn);
+    const time = toTime(row[dateColumn]);
+    if (customer === null || isNaN(time)) return;
+    latest = Math.max(latest, time);
+    const entry = customers.get(customer) || { last: -Infinity, orders: new Set<string>(), monetary: 0 };
+    entry.last = Math.max(entry.last, time);
+    entry.orders.add(orderKey(row, index, mapping));
+    const revenue = toNumber(row[revenueColumn]);
+    if (!isNaN(revenue)) entry.monetary += revenue;
+    customers.set(customer, entry);
+  });
+
+  const entries = [...customers.entries()];
+  // Scored on the last order time, so more recent customers score higher
+  const r = quintileScores(entries.map(([, e]) => e.last));
+  const f = quintileScores(entries.map(([, e]) => e.orders.size));
+  const m = quintileScores(entries.map(([, e]) => e.monetary));
+  return entries.map(([customer, e], i) => ({
+    customer,
+    recency: Math.round((latest - e.last) / DAY),
+    frequency: e.orders.size,
+    monetary: e.monetary,
+    r: r[i],
+    f: f[i],
+    m: m[i],
+    segment: segmentOf(r[i], f[i]),
+  }));
+};
+
+export interface SegmentSummary {
+  id: RfmSegment;
+  label: string;
+  description: string;
+  customers: number;
+  revenue: number;
+  avgRecency: number;
+  avgFrequency: number;
+}
+
+export const summarizeSegments = (customers: CustomerRfm[]): SegmentSummary[] =>
+  RFM_SEGMENTS.map(segment => {
+    const members = customers.filter(c => c.segment === segment.id);
+    const count = members.length;
+    return {
+      ...segment,
+      customers: count,
+      revenue: members.reduce((sum, c) => sum + c.monetary, 0),
+      avgRecency: count > 0 ? members.reduce((sum, c) => sum + c.recency, 0) / count : 0,
+      avgFrequency: count > 0 ? members.reduce((sum, c) => sum + c.frequency, 0) / count : 0,
+    };
+  }).filter(segment => segment.customers > 0);
+
+export interface Cohort {
+  /** Start of the month of the customers' first order, in epoch milliseconds */
+  period: number;
+  label: string;
+  size: number;
+  /** Share of the cohort ordering in each month since the first, starting with 1 for month 0 */
+  retention: number[];
+}
+
+const MAX_COHORTS = 12;
+
+/** Monthly acquisition cohorts and the share of each that ordered again in later months. */
+export const cohortRetention = (rows: Record<string, unknown>[], mapping: RoleMapping): Cohort[] => {
+  const { customer_id: customerColumn, date: dateColumn } = mapping;
+  if (!customerColumn || !dateColumn) return [];
+
+  const activeMonths = new Map<string, Set<number>>();
+  let latest = -Infinity;
+  rows.forEach(row => {
+    const customer = keyOf(row, customerColumn);
+    const time = toTime(row[dateColumn]);
+    if (customer === null || isNaN(time)) return;
+    const month = truncateTime(time, 'month');
+    latest = Math.max(latest, month);
+    if (!activeMonths.has(customer)) activeMonths.set(customer, new Set());
+    activeMonths.get(customer)!.add(month);
+  });
+
+  const monthIndex = (time: number) => new Date(time).getFullYear() * 12 + new Date(time).getMonth();
+  const cohorts = new Map<number, { size: number; active: number[] }>();
+  activeMonths.forEach(months => {
+    const first = Math.min(...months);
+    const cohort = cohorts.get(first) || { size: 0, active: new Array(monthIndex(latest) - monthIndex(first) + 1).fill(0) };
+    cohort.size++;
+    months.forEach(month => cohort.active[monthIndex(month) - monthIndex(first)]++);
+    cohorts.set(first, cohort);
+  });
+
+  return [...cohorts.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .slice(-MAX_COHORTS)
+    .map(([period, { size, active }]) => ({
+      period,
+      label: formatPeriod(period, 'month'),
+      size,
+      retention: active.slice(0, MAX_COHORTS).map(count => count / size),
+    }));
+};
@@ -0,0 +1,79 @@
+// File formats the importer understands, detected from the extension and,
+// where the extension is missing or misleading, from the file's first bytes.
+
+export type FileFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'excel' | 'parquet';
+
+export const FORMAT_LABELS: Record<FileFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  excel: 'Excel',
+  parquet: 'Parquet',
+};
+
+const EXTENSIONS: Record<string, FileFormat> = {
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xlsx: 'excel',
+  xlsm: 'excel',
+  xls: 'excel',
+  parquet: 'parquet',
+};
+
+/** Value for the file input's `accept` attribute */
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+export const detectFormat = async (file: File): Promise<FileFormat | null> => {
+  const bytes = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+
+  // Binary signatures are checked first: they are unambiguous
+  if (startsWith(bytes, [0x50, 0x41, 0x52, 0x31])) return 'parquet'; // "PAR1"
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'excel'; // zip container (xlsx)
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) return 'excel'; // OLE2 container (xls)
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (EXTENSIONS[extension] && EXTENSIONS[extension] !== 'excel' && EXTENSIONS[extension] !== 'parquet') {
+    return EXTENSIONS[extension];
+  }
+
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (text.startsWith('{')) {
+    // One object per line means NDJSON; a single document spans lines
+    const firstLine = text.split('\n')[0].trim();
+    return firstLine.endsWith('}') && text.includes('\n{') ? 'ndjson' : 'json';
+  }
+  if (file.type === 'text/csv') return 'csv';
+  if (file.type === 'text/tab-separated-values') return 'tsv';
+  return null;
+};
+
+/** Plain-text tables, whose delimiter and encoding can be chosen in the preview */
+export const isDelimited = (format: FileFormat) => format === 'csv' || format === 'tsv';
+
+/** Formats made of rows of cells, where leading rows can be skipped and the header row is optional */
+export const hasRowLayout = (format: FileFormat) => isDelimited(format) || format === 'excel';
+
+/** Guesses a text file's encoding from its byte order mark, falling back to Windows-1252 when it is not valid UTF-8. */
+export const detectEncoding = async (file: File) => {
+  const bytes = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) return 'utf-8';
+  if (startsWith(bytes, [0xff, 0xfe])) return 'utf-16le';
+  if (startsWith(bytes, [0xfe, 0xff])) return 'utf-16be';
+
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
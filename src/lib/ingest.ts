@@ -0,0 +1,127 @@
+import type { ColumnarTable } from './columnar';
+import type { FileFormat } from './formats';
+import type { ColumnSpec, ImportOptions } from './schema';
+
+// File parsing off the main thread. Each import gets its own worker; CSV, TSV
+// and NDJSON are streamed in chunks, so even very large files keep the page
+// responsive.
+
+export interface IngestProgress {
+  bytesLoaded: number;
+  totalBytes: number;
+  rowCount: number;
+}
+
+export interface IngestResult {
+  table: ColumnarTable;
+  /** Rows Papa Parse reported problems for; they are still imported */
+  errorCount: number;
+}
+
+/** The first rows of a file as read, with the settings and column types detected from them */
+export interface FilePreview {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  /** Number of rows the column types were inferred from */
+  sampleSize: number;
+  schema: ColumnSpec[];
+  delimiter?: string;
+  encoding?: string;
+}
+
+export type IngestWorkerRequest =
+  | { type: 'parse'; file: File; format: FileFormat; options: ImportOptions }
+  | { type: 'preview'; file: File; format: FileFormat; options: ImportOptions }
+  | { type: 'sheets'; file: File };
+
+export type IngestWorkerResponse =
+  | ({ type: 'progress' } & IngestProgress)
+  | { type: 'sheets'; sheetNames: string[] }
+  | { type: 'preview'; preview: FilePreview }
+  | { type: 'done'; table: ColumnarTable; errorCount: number }
+  | { type: 'error'; error: string };
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+export interface ImportJob {
+  promise: Promise<IngestResult>;
+  cancel: () => void;
+}
+
+const createWorker = () => new Worker(new URL('./ingest.worker.ts', import.meta.url), { type: 'module' });
+
+export const importFile = (
+  file: File,
+  format: FileFormat,
+  options: ImportOptions,
+  onProgress: (progress: IngestProgress) => void
+): ImportJob => {
+  const worker = createWorker();
+  let cancel = () => {};
+
+  const promise = new Promise<IngestResult>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new ImportCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<IngestWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress(response);
+        return;
+      }
+
+      worker.terminate();
+      if (response.type === 'done') {
+        resolve({ table: response.table, errorCount: response.errorCount });
+      } else if (response.type === 'error') {
+        reject(new Error(response.error));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+
+    const request: IngestWorkerRequest = { type: 'parse', file, format, options };
+    worker.postMessage(request);
+  });
+
+  return { promise, cancel: () => cancel() };
+};
+
+// Runs a short request that answers with a single message
+const requestOnce = <T>(message: IngestWorkerRequest, pick: (response: IngestWorkerResponse) => T | undefined) =>
+  new Promise<T>((resolve, reject) => {
+    const worker = createWorker();
+    worker.onmessage = (event: MessageEvent<IngestWorkerResponse>) => {
+      const response = event.data;
+      const result = pick(response);
+      if (result !== undefined) {
+        worker.terminate();
+        resolve(result);
+      } else if (response.type === 'error') {
+        worker.terminate();
+        reject(new Error(response.error));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+    worker.postMessage(message);
+  });
+
+/** Reads only the sheet names of a workbook, for the sheet picker. */
+export const listWorkbookSheets = (file: File) =>
+  requestOnce({ type: 'sheets', file }, response => (response.type === 'sheets' ? response.sheetNames : undefined));
+
+/** Reads the first rows of a file and suggests a type for each column. */
+export const previewFile = (file: File, format: FileFormat, options: ImportOptions) =>
+  requestOnce({ type: 'preview', file, format, options }, response => (response.type === 'preview' ? response.preview : undefined));
@@ -0,0 +1,61 @@
+import { TableBuilder, transferables } from './columnar';
+import { readFile, listSheets } from './parsers';
+import { isDelimited, detectEncoding, type FileFormat } from './formats';
+import { inferSchema, createRecordMapper, type ImportOptions } from './schema';
+import type { FilePreview, IngestWorkerRequest, IngestWorkerResponse } from './ingest';
+
+const PREVIEW_ROWS = 20;
+// Rows the column types are inferred from
+const SAMPLE_SIZE = 1000;
+
+const post = (message: IngestWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const preview = async (file: File, format: FileFormat, options: ImportOptions): Promise<FilePreview> => {
+  const encoding = isDelimited(format) ? options.encoding || await detectEncoding(file) : undefined;
+  const records: Record<string, unknown>[] = [];
+  const { delimiter } = await readFile(file, format, { ...options, encoding, limit: SAMPLE_SIZE }, record => records.push(record), () => {});
+
+  const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return {
+    columns,
+    rows: records.slice(0, PREVIEW_ROWS),
+    sampleSize: records.length,
+    schema: inferSchema(columns, records),
+    delimiter,
+    encoding,
+  };
+};
+
+const parse = async (file: File, format: FileFormat, options: ImportOptions) => {
+  // Delimited text has no types of its own: without a reviewed schema, use the inferred one
+  const schema = options.schema || (isDelimited(format) ? (await preview(file, format, options)).schema : undefined);
+  const mapRecord = createRecordMapper(schema);
+  const builder = new TableBuilder(schema?.filter(spec => spec.include).map(spec => spec.name));
+
+  const { errorCount } = await readFile(
+    file,
+    format,
+    options,
+    record => builder.addRow(mapRecord(record)),
+    bytesLoaded => post({ type: 'progress', bytesLoaded, totalBytes: file.size, rowCount: builder.rowCount })
+  );
+  return { table: builder.build(), errorCount };
+};
+
+self.onmessage = async (event: MessageEvent<IngestWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'sheets') {
+      post({ type: 'sheets', sheetNames: await listSheets(request.file) });
+    } else if (request.type === 'preview') {
+      post({ type: 'preview', preview: await preview(request.file, request.format, request.options) });
+    } else {
+      const { table, errorCount } = await parse(request.file, request.format, request.options);
+      post({ type: 'done', table, errorCount }, transferables(table));
+    }
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,372 @@
+import { rankPairs, toNumber } from './correlation';
+import { formatPeriod, toTime, truncateTime, type Granularity } from './dates';
+import { isCategory, isMeasure } from './semantic';
+import { formatNumber } from './utils';
+import type { ColumnProfile, DatasetProfile } from './profile';
+
+// Automatic findings for the overview. A battery of local analyses each
+// proposes findings with a score from 0 to 1 for how notable they are; the
+// best ones are shown with a sentence and a small chart.
+
+export type InsightKind = 'share' | 'correlation' | 'trend' | 'seasonality' | 'segment' | 'concentration' | 'change';
+
+export const INSIGHT_KINDS: { id: InsightKind; label: string }[] = [
+  { id: 'share', label: 'Dominant category' },
+  { id: 'correlation', label: 'Correlation' },
+  { id: 'trend', label: 'Trend' },
+  { id: 'seasonality', label: 'Seasonality' },
+  { id: 'segment', label: 'Segment difference' },
+  { id: 'concentration', label: 'Concentration' },
+  { id: 'change', label: 'Sudden change' },
+];
+
+export interface InsightChart {
+  type: 'bar' | 'line' | 'scatter';
+  /** Scatter points use `name` for x */
+  data: { name: string | number; value: number }[];
+  /** The bar or point the narrative is about */
+  highlight?: string | number;
+}
+
+export interface Insight {
+  id: string;
+  kind: InsightKind;
+  title: string;
+  narrative: string;
+  /** How notable the finding is, from 0 to 1 */
+  score: number;
+  columns: string[];
+  chart: InsightChart;
+}
+
+// Keeps the scan cheap on wide tables
+const MAX_MEASURES = 3;
+const MAX_SEGMENT_COLUMNS = 5;
+const MAX_SEGMENTS = 20;
+const MAX_SHARE_CATEGORIES = 50;
+const MAX_SCATTER_POINTS = 200;
+// No kind crowds out the others
+const MAX_PER_KIND = 3;
+
+const DAY = 86_400_000;
+const CYCLES = [
+  {
+    unit: 'weekly',
+    granularity: 'day' as const,
+    minSpan: 14 * DAY,
+    names: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    of: (time: number) => new Date(time).getDay(),
+  },
+  {
+    unit: 'yearly',
+    granularity: 'month' as const,
+    minSpan: 2 * 365 * DAY,
+    names: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    of: (time: number) => new Date(time).getMonth(),
+  },
+];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+/** The measures worth analysing, money first */
+const measuresOf = (profile: DatasetProfile) =>
+  profile.columns
+    .filter(isMeasure)
+    .sort((a, b) => Number(b.semantic?.type === 'currency') - Number(a.semantic?.type === 'currency'))
+    .slice(0, MAX_MEASURES);
+
+// Share of the variance explained by the groups (eta squared)
+const explainedVariance = (groups: { sum: number; squares: number; count: number }[]) => {
+  const count = groups.reduce((n, g) => n + g.count, 0);
+  const sum = groups.reduce((s, g) => s + g.sum, 0);
+  const total = groups.reduce((s, g) => s + g.squares, 0) - (sum * sum) / count;
+  if (count < 3 || total <= 0) return 0;
+  const between = groups.reduce((s, g) => s + (g.count > 0 ? (g.sum * g.sum) / g.count : 0), 0) - (sum * sum) / count;
+  return Math.max(0, Math.min(1, between / total));
+};
+
+const shareInsights = (profile: DatasetProfile): Insight[] =>
+  profile.columns
+    .filter(column => isCategory(column, MAX_SHARE_CATEGORIES))
+    .flatMap(column => {
+      const present = column.count - column.missingCount;
+      const [top] = column.topValues;
+      if (!top || present === 0) return [];
+      const share = top.count / present;
+      const even = 1 / column.uniqueCount;
+      // How far the top value is above an even split, relative to the room there is
+      const score = (share - even) / (1 - even);
+      if (score < 0.2 || share < 0.3) return [];
+      return [{
+        id: `share:${column.name}`,
+        kind: 'share' as const,
+        title: `${top.value} dominates ${column.name}`,
+        narrative: `"${top.value}" makes up ${percent(share)} of ${column.name} values, ${(share / even).toFixed(1)}× an even split across ${column.uniqueCount} values.`,
+        score,
+        columns: [column.name],
+        chart: { type: 'bar' as const, data: column.topValues.slice(0, 8).map(v => ({ name: v.value, value: v.count })), highlight: top.value },
+      }];
+    });
+
+const correlationInsights = (rows: Record<string, unknown>[], profile: DatasetProfile): Insight[] => {
+  const measures = new Set(profile.columns.filter(isMeasure).map(c => c.name));
+  return rankPairs(profile.correlation, 'pearson')
+    .filter(pair => measures.has(pair.a) && measures.has(pair.b) && Math.abs(pair.value) >= 0.5 && Math.abs(pair.value) < 0.9999)
+    .slice(0, MAX_PER_KIND)
+    .map(pair => {
+      const step = Math.max(1, Math.floor(rows.length / MAX_SCATTER_POINTS));
+      const points: InsightChart['data'] = [];
+      for (let i = 0; i < rows.length && points.length < MAX_SCATTER_POINTS; i += step) {
+        const x = toNumber(rows[i][pair.a]);
+        const y = toNumber(rows[i][pair.b]);
+        if (!isNaN(x) && !isNaN(y)) points.push({ name: x, value: y });
+      }
+      const positive = pair.value > 0;
+      return {
+        id: `correlation:${pair.a}:${pair.b}`,
+        kind: 'correlation' as const,
+        title: positive ? `${pair.a} and ${pair.b} move together` : `${pair.a} and ${pair.b} move in opposite directions`,
+        narrative: `As ${pair.a} increases, ${pair.b} ${positive ? 'rises too' : 'falls'} (r = ${pair.value.toFixed(2)} over ${pair.count.toLocaleString()} rows).`,
+        score: Math.abs(pair.value),
+        columns: [pair.a, pair.b],
+        chart: { type: 'scatter' as const, data: points },
+      };
+    });
+};
+
+/** Totals of the metric (or row counts) per period, in time order */
+const periodTotals = (rows: Record<string, unknown>[], dateColumn: string, metric: string | null, granularity: Granularity) => {
+  const totals = new Map<number, number>();
+  rows.forEach(row => {
+    const time = toTime(row[dateColumn]);
+    if (isNaN(time)) return;
+    const value = metric ? toNumber(row[metric]) : 1;
+    if (isNaN(value)) return;
+    const period = truncateTime(time, granularity);
+    totals.set(period, (totals.get(period) || 0) + value);
+  });
+  return [...totals.entries()].sort((a, b) => a[0] - b[0]).map(([time, value]) => ({ time, value }));
+};
+
+// Periods short enough to show a shape over the whole span
+const granularityFor = (column: ColumnProfile): Granularity | null => {
+  if (!column.dates) return null;
+  const span = Date.parse(column.dates.max) - Date.parse(column.dates.min);
+  if (span < 14 * DAY) return null;
+  if (span <= 120 * DAY) return 'day';
+  if (span <= 2 * 365 * DAY) return 'week';
+  return 'month';
+};
+
+const linearFit = (values: number[]) => {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((s, v) => s + v, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  values.forEach((v, x) => {
+    sxy += (x - meanX) * (v - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (v - meanY) ** 2;
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, intercept: meanY - slope * meanX, meanY, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0 };
+};
+
+const timeInsights = (rows: Record<string, unknown>[], profile: DatasetProfile): Insight[] => {
+  const insights: Insight[] = [];
+  const dates = profile.columns.filter(c => c.type === 'date');
+  const metrics: (string | null)[] = measuresOf(profile).map(c => c.name);
+  if (metrics.length === 0) metrics.push(null);
+
+  dates.forEach(date => {
+    const granularity = granularityFor(date);
+    if (!granularity) return;
+    metrics.forEach(metric => {
+      const label = metric || 'Row count';
+      const series = periodTotals(rows, date.name, metric, granularity);
+      if (series.length < 6) return;
+      const chart: InsightChart = {
+        type: 'line',
+        data: series.map(p => ({ name: formatPeriod(p.time, granularity), value: p.value })),
+      };
+      const values = series.map(p => p.value);
+
+      // Trend: a straight line through the periods
+      const fit = linearFit(values);
+      const first = fit.intercept;
+      const last = fit.intercept + fit.slope * (values.length - 1);
+      const change = first !== 0 ? (last - first) / Math.abs(first) : 0;
+      if (fit.r2 >= 0.3 && Math.abs(change) >= 0.1) {
+        insights.push({
+          id: `trend:${date.name}:${label}`,
+          kind: 'trend',
+          title: `${label} is ${change > 0 ? 'rising' : 'falling'} over time`,
+          narrative: `Per ${granularity}, ${label} ${change > 0 ? 'grew' : 'fell'} by about ${percent(Math.abs(change))} from ${chart.data[0].name} to ${chart.data[chart.data.length - 1].name} along a steady trend (R² = ${fit.r2.toFixed(2)}).`,
+          score: fit.r2 * Math.min(1, Math.abs(change)),
+          columns: [date.name, ...(metric ? [metric] : [])],
+          chart,
+        });
+      }
+
+      // Sudden change: a jump between neighbouring periods far beyond the usual ones
+      const jumps = values.slice(1).map((v, i) => v - values[i]);
+      const sortedJumps = jumps.map(Math.abs).sort((a, b) => a - b);
+      const typical = sortedJumps[Math.floor(sortedJumps.length / 2)];
+      // The first and last periods are often partial, so jumps into or out of them don't count
+      let biggest = 1;
+      for (let i = 2; i < jumps.length - 1; i++) {
+        if (Math.abs(jumps[i]) > Math.abs(jumps[biggest])) biggest = i;
+      }
+      const ratio = typical > 0 ? Math.abs(jumps[biggest]) / typical : 0;
+      // Small relative moves in a very steady series aren't worth a finding
+      const relative = values[biggest] !== 0 ? Math.abs(jumps[biggest] / values[biggest]) : 0;
+      if (ratio >= 4 && relative >= 0.2) {
+        const from = chart.data[biggest];
+        const to = chart.data[biggest + 1];
+        insights.push({
+          id: `change:${date.name}:${label}`,
+          kind: 'change',
+          title: `${label} ${jumps[biggest] > 0 ? 'jumped' : 'dropped'} in ${to.name}`,
+          narrative: `${label} went from ${formatNumber(from.value)} in ${from.name} to ${formatNumber(to.value)} in ${to.name}, ${ratio.toFixed(0)}× the typical change between ${granularity}s.`,
+          score: Math.min(1, ratio / 10),
+          columns: [date.name, ...(metric ? [metric] : [])],
+          chart: { ...chart, highlight: to.name },
+        });
+      }
+    });
+
+    // Seasonality: the same weekdays or months stand out, checked once the span covers two full cycles
+    const span = Date.parse(date.dates!.max) - Date.parse(date.dates!.min);
+    const metric = metrics[0];
+    const label = metric || 'Row count';
+    CYCLES.filter(cycle => span >= cycle.minSpan).forEach(cycle => {
+      const series = periodTotals(rows, date.name, metric, cycle.granularity);
+      // Compared against the trend, so growth isn't mistaken for a season
+      const fit = linearFit(series.map(p => p.value));
+      const groups = cycle.names.map(() => ({ sum: 0, squares: 0, count: 0, level: 0 }));
+      series.forEach((p, i) => {
+        const group = groups[cycle.of(p.time)];
+        const residual = p.value - (fit.intercept + fit.slope * i);
+        group.sum += residual;
+        group.squares += residual * residual;
+        group.count++;
+        group.level += p.value;
+      });
+      if (groups.some(g => g.count < 2)) return;
+      const strength = explainedVariance(groups);
+      if (strength < 0.3) return;
+
+      const averages = groups.map((g, i) => ({ name: cycle.names[i], value: g.level / g.count }));
+      const high = averages.reduce((a, b) => (b.value > a.value ? b : a));
+      const low = averages.reduce((a, b) => (b.value < a.value ? b : a));
+      const when = (name: string) => (cycle.unit === 'weekly' ? `on ${name}s` : `in ${name}`);
+      insights.push({
+        id: `seasonality:${date.name}:${label}:${cycle.unit}`,
+        kind: 'seasonality',
+        title: `${label} follows a ${cycle.unit} pattern`,
+        narrative: `${label} is highest ${when(high.name)} and lowest ${when(low.name)} on average; the ${cycle.unit} cycle explains ${percent(strength)} of the variation around the trend.`,
+        score: strength,
+        columns: [date.name, ...(metric ? [metric] : [])],
+        chart: { type: 'bar', data: averages.map(({ name, value }) => ({ name: name.slice(0, 3), value })), highlight: high.name.slice(0, 3) },
+      });
+    });
+  });
+  return insights;
+};
+
+const segmentInsights = (rows: Record<string, unknown>[], profile: DatasetProfile): Insight[] => {
+  const categories = profile.columns.filter(c => isCategory(c, MAX_SEGMENTS)).slice(0, MAX_SEGMENT_COLUMNS);
+  return measuresOf(profile).flatMap(measure =>
+    categories.flatMap(category => {
+      const groups = new Map<string, { sum: number; squares: number; count: number }>();
+      rows.forEach(row => {
+        const value = toNumber(row[measure.name]);
+        if (isNaN(value) || isMissing(row[category.name])) return;
+        const key = String(row[category.name]);
+        const group = groups.get(key) || { sum: 0, squares: 0, count: 0 };
+        group.sum += value;
+        group.squares += value * value;
+        group.count++;
+        groups.set(key, group);
+      });
+      const strength = explainedVariance([...groups.values()]);
+      if (groups.size < 2 || strength < 0.05) return [];
+
+      const means = [...groups.entries()]
+        .filter(([, g]) => g.count >= 3)
+        .map(([name, g]) => ({ name, value: g.sum / g.count }))
+        .sort((a, b) => b.value - a.value);
+      if (means.length < 2) return [];
+      const high = means[0];
+      const low = means[means.length - 1];
+      const comparison = low.value > 0 && high.value / low.value >= 1.2
+        ? `${(high.value / low.value).toFixed(1)}× that for ${low.name} (${formatNumber(low.value)})`
+        : `against ${formatNumber(low.value)} for ${low.name}`;
+      return [{
+        id: `segment:${category.name}:${measure.name}`,
+        kind: 'segment' as const,
+        title: `${measure.name} differs by ${category.name}`,
+        narrative: `Average ${measure.name} for ${high.name} is ${formatNumber(high.value)}, ${comparison}; ${category.name} explains ${percent(strength)} of the variation in ${measure.name}.`,
+        // Even a real difference rarely explains most of the variance between individual rows
+        score: Math.min(1, strength * 2),
+        columns: [category.name, measure.name],
+        chart: { type: 'bar' as const, data: means.slice(0, 10), highlight: high.name },
+      }];
+    })
+  );
+};
+
+const concentrationInsights = (rows: Record<string, unknown>[], profile: DatasetProfile): Insight[] => {
+  const metric = measuresOf(profile)[0] || null;
+  return profile.columns
+    .filter(c => c.type === 'text' && c.uniqueCount >= 10 && c.uniqueCount < (c.count - c.missingCount) * 0.95)
+    .flatMap(column => {
+      const totals = new Map<string, number>();
+      rows.forEach(row => {
+        if (isMissing(row[column.name])) return;
+        const value = metric ? toNumber(row[metric.name]) : 1;
+        if (isNaN(value) || value < 0) return;
+        const key = String(row[column.name]);
+        totals.set(key, (totals.get(key) || 0) + value);
+      });
+      const sorted = [...totals.entries()].sort((a, b) => b[1] - a[1]);
+      const total = sorted.reduce((s, [, v]) => s + v, 0);
+      if (sorted.length < 10 || total <= 0) return [];
+      const topCount = Math.max(1, Math.round(sorted.length * 0.2));
+      const share = sorted.slice(0, topCount).reduce((s, [, v]) => s + v, 0) / total;
+      if (share < 0.5) return [];
+      const measure = metric ? `total ${metric.name}` : 'all rows';
+      return [{
+        id: `concentration:${column.name}`,
+        kind: 'concentration' as const,
+        title: `A few ${column.name} values account for most of ${metric ? metric.name : 'the rows'}`,
+        narrative: `The top 20% of ${column.name} values (${topCount.toLocaleString()} of ${sorted.length.toLocaleString()}) account for ${percent(share)} of ${measure}.`,
+        score: (share - 0.2) / 0.8,
+        columns: [column.name, ...(metric ? [metric.name] : [])],
+        chart: { type: 'bar' as const, data: sorted.slice(0, 10).map(([name, value]) => ({ name, value })) },
+      }];
+    });
+};
+
+/** Runs every analysis and returns the most notable findings, best first. */
+export const generateInsights = (rows: Record<string, unknown>[], profile: DatasetProfile, limit = 12): Insight[] => {
+  if (rows.length === 0) return [];
+  const all = [
+    ...shareInsights(profile),
+    ...correlationInsights(rows, profile),
+    ...timeInsights(rows, profile),
+    ...segmentInsights(rows, profile),
+    ...concentrationInsights(rows, profile),
+  ].sort((a, b) => b.score - a.score);
+
+  const perKind = new Map<InsightKind, number>();
+  return all
+    .filter(insight => {
+      const count = perKind.get(insight.kind) || 0;
+      perKind.set(insight.kind, count + 1);
+      return count < MAX_PER_KIND;
+    })
+    .slice(0, limit);
+};
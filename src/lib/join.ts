@@ -0,0 +1,137 @@
+// Hash join of two row sets on one or more key column pairs, with the same
+// matching rules as SQL: rows whose key contains an empty value never match.
+// Joins run in a worker, since they can produce millions of rows.
+
+import { TableBuilder, toTable, type ColumnarTable } from './columnar';
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export const JOIN_TYPES: { id: JoinType; label: string; description: string }[] = [
+  { id: 'inner', label: 'Inner', description: 'Only rows with a match on both sides' },
+  { id: 'left', label: 'Left', description: 'Every left row, with right values where they match' },
+  { id: 'right', label: 'Right', description: 'Every right row, with left values where they match' },
+  { id: 'full', label: 'Full outer', description: 'Every row from both sides' },
+];
+
+/** Upper bound on joined rows, so a key with many repeats on both sides cannot exhaust memory */
+export const MAX_JOIN_ROWS = 2_000_000;
+
+type Row = Record<string, unknown>;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Numbers and numeric text compare equal, so 42 matches "42" across files
+const keyOf = (row: Row, columns: string[]) => {
+  const parts = columns.map(col => row[col]);
+  return parts.some(isBlank) ? null : JSON.stringify(parts.map(String));
+};
+
+export interface JoinOptions {
+  type: JoinType;
+  keys: JoinKey[];
+  /** Prefix for right columns whose names clash with left columns */
+  rightName: string;
+}
+
+/** The joined rows, built straight into a columnar table */
+export const joinRows = (left: Row[], right: Row[], { type, keys, rightName }: JoinOptions): ColumnarTable => {
+  if (keys.length === 0) throw new Error('Choose at least one pair of key columns');
+
+  const leftColumns = Object.keys(left[0] || {});
+  const rightColumns = Object.keys(right[0] || {});
+  const leftKeys = keys.map(k => k.left);
+  const rightKeys = keys.map(k => k.right);
+
+  // A right key with the same name as its left key is merged into one column
+  const mergedKeys = new Set(keys.filter(k => k.left === k.right).map(k => k.right));
+  const leftNames = new Set(leftColumns);
+  const rightOutput = rightColumns
+    .filter(col => !mergedKeys.has(col))
+    .map(col => ({ source: col, name: leftNames.has(col) ? `${rightName}.${col}` : col }));
+
+  const index = new Map<string, number[]>();
+  right.forEach((row, i) => {
+    const key = keyOf(row, rightKeys);
+    if (key === null) return;
+    const matches = index.get(key);
+    if (matches) matches.push(i);
+    else index.set(key, [i]);
+  });
+
+  const output = new TableBuilder([...leftColumns, ...rightOutput.map(({ name }) => name)]);
+  const matchedRight = new Uint8Array(right.length);
+
+  const emit = (leftRow: Row | null, rightRow: Row | null) => {
+    if (output.rowCount >= MAX_JOIN_ROWS) {
+      throw new Error(`The join produces more than ${MAX_JOIN_ROWS.toLocaleString()} rows; check that the key columns identify rows`);
+    }
+    const row: Row = {};
+    leftColumns.forEach(col => {
+      row[col] = leftRow ? leftRow[col] ?? null : null;
+    });
+    // Unmatched right rows still carry their key in the merged column
+    if (!leftRow && rightRow) mergedKeys.forEach(col => (row[col] = rightRow[col] ?? null));
+    rightOutput.forEach(({ source, name }) => {
+      row[name] = rightRow ? rightRow[source] ?? null : null;
+    });
+    output.addRow(row);
+  };
+
+  left.forEach(leftRow => {
+    const key = keyOf(leftRow, leftKeys);
+    const matches = key === null ? undefined : index.get(key);
+    if (matches) {
+      matches.forEach(i => {
+        matchedRight[i] = 1;
+        emit(leftRow, right[i]);
+      });
+    } else if (type === 'left' || type === 'full') {
+      emit(leftRow, null);
+    }
+  });
+
+  if (type === 'right' || type === 'full') {
+    right.forEach((rightRow, i) => {
+      if (!matchedRight[i]) emit(null, rightRow);
+    });
+  }
+
+  return output.build();
+};
+
+export type JoinWorkerRequest = { left: ColumnarTable; right: ColumnarTable; options: JoinOptions };
+
+export type JoinWorkerResponse =
+  | { type: 'done'; table: ColumnarTable }
+  | { type: 'error'; error: string };
+
+export interface JoinJob {
+  promise: Promise<ColumnarTable>;
+  /** Stops the join; the promise then never settles */
+  cancel: () => void;
+}
+
+export const runJoin = (left: Row[], right: Row[], options: JoinOptions): JoinJob => {
+  const worker = new Worker(new URL('./join.worker.ts', import.meta.url), { type: 'module' });
+  const promise = new Promise<ColumnarTable>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<JoinWorkerResponse>) => {
+      const response = event.data;
+      worker.terminate();
+      if (response.type === 'done') resolve(response.table);
+      else reject(new Error(response.error));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Join worker failed'));
+    };
+
+    const message: JoinWorkerRequest = { left: toTable(left), right: toTable(right), options };
+    worker.postMessage(message);
+  });
+  return { promise, cancel: () => worker.terminate() };
+};
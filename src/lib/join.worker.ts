@@ -0,0 +1,14 @@
+import { rowView, transferables } from './columnar';
+import { joinRows, type JoinWorkerRequest, type JoinWorkerResponse } from './join';
+
+const post = (message: JoinWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<JoinWorkerRequest>) => {
+  try {
+    const { left, right, options } = event.data;
+    const table = joinRows(rowView(left), rowView(right), options);
+    post({ type: 'done', table }, transferables(table));
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,147 @@
+import { toNumber } from './correlation';
+import { toTime, truncateTime, type Granularity } from './dates';
+import type { ColumnProfile } from './profile';
+
+// Outliers in single numeric columns and anomalies in a metric over time.
+
+export type OutlierMethod = 'iqr' | 'zscore';
+
+export interface OutlierSettings {
+  method: OutlierMethod;
+  /** Tukey fences: values beyond this many IQRs outside the quartiles */
+  iqrMultiplier: number;
+  /** Values this many standard deviations or more from the mean */
+  zThreshold: number;
+}
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettings = { method: 'iqr', iqrMultiplier: 1.5, zThreshold: 3 };
+
+export const OUTLIER_METHODS: { id: OutlierMethod; label: string }[] = [
+  { id: 'iqr', label: 'IQR (Tukey fences)' },
+  { id: 'zscore', label: 'Z-score' },
+];
+
+export interface ColumnOutliers {
+  column: string;
+  lower: number;
+  upper: number;
+  /** Indexes into the dataset's rows */
+  rows: number[];
+}
+
+/** The range outside of which a column's values count as outliers, or null when it has no spread. */
+export const outlierBounds = (column: ColumnProfile, settings: OutlierSettings) => {
+  const stats = column.numeric;
+  if (!stats) return null;
+  if (settings.method === 'iqr') {
+    const iqr = stats.quantiles.p75 - stats.quantiles.p25;
+    if (iqr === 0) return null;
+    return { lower: stats.quantiles.p25 - settings.iqrMultiplier * iqr, upper: stats.quantiles.p75 + settings.iqrMultiplier * iqr };
+  }
+  if (stats.stddev === 0) return null;
+  return { lower: stats.mean - settings.zThreshold * stats.stddev, upper: stats.mean + settings.zThreshold * stats.stddev };
+};
+
+/** Rows whose value falls outside each numeric column's bounds. */
+export const findOutliers = (
+  rows: Record<string, unknown>[],
+  columns: ColumnProfile[],
+  settings: OutlierSettings
+): ColumnOutliers[] =>
+  columns.flatMap(column => {
+    const bounds = outlierBounds(column, settings);
+    if (!bounds) return [];
+    const flagged: number[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const value = toNumber(rows[i][column.name]);
+      if (value < bounds.lower || value > bounds.upper) flagged.push(i);
+    }
+    return [{ column: column.name, ...bounds, rows: flagged }];
+  });
+
+export interface SeriesPoint {
+  /** Start of the period in epoch milliseconds */
+  time: number;
+  value: number;
+  /** Median of the surrounding periods */
+  expected: number | null;
+  /** Robust z-score of the value against the surrounding periods */
+  score: number | null;
+  anomaly: boolean;
+}
+
+export interface AnomalyOptions {
+  granularity: Granularity;
+  /** Periods on each side compared against */
+  window: number;
+  threshold: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = { granularity: 'day', window: 7, threshold: 3.5 };
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Scales the median absolute deviation to match the standard deviation of normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Sums the metric per period and flags periods that stray from their
+ * neighbours. Each period is scored against the median and median absolute
+ * deviation of the `window` periods on either side, so trends and one-off
+ * spikes in the neighbourhood don't mask each other.
+ */
+export const detectAnomalies = (
+  rows: Record<string, unknown>[],
+  dateColumn: string,
+  metric: string,
+  options: AnomalyOptions
+): SeriesPoint[] => {
+  const totals = new Map<number, number>();
+  rows.forEach(row => {
+    const time = toTime(row[dateColumn]);
+    const value = toNumber(row[metric]);
+    if (isNaN(time) || isNaN(value)) return;
+    const period = truncateTime(time, options.granularity);
+    totals.set(period, (totals.get(period) || 0) + value);
+  });
+
+  const series = [...totals.entries()].sort((a, b) => a[0] - b[0]);
+  return series.map(([time, value], index) => {
+    const neighbours = series
+      .slice(Math.max(0, index - options.window), index + options.window + 1)
+      .filter((_, i) => i !== Math.min(index, options.window))
+      .map(([, v]) => v);
+    if (neighbours.length < 3) return { time, value, expected: null, score: null, anomaly: false };
+
+    const expected = median(neighbours);
+    const spread = median(neighbours.map(v => Math.abs(v - expected))) * MAD_SCALE;
+    const score = spread > 0 ? (value - expected) / spread : value === expected ? 0 : null;
+    return {
+      time,
+      value,
+      expected,
+      score,
+      // A flat neighbourhood makes any change stand out, with no finite score
+      anomaly: score === null ? true : Math.abs(score) > options.threshold,
+    };
+  });
+};
+
+/** Indexes of the rows that fall in the given periods. */
+export const rowsInPeriods = (
+  rows: Record<string, unknown>[],
+  dateColumn: string,
+  periods: Set<number>,
+  granularity: Granularity
+) => {
+  const indexes: number[] = [];
+  rows.forEach((row, i) => {
+    const time = toTime(row[dateColumn]);
+    if (!isNaN(time) && periods.has(truncateTime(time, granularity))) indexes.push(i);
+  });
+  return indexes;
+};
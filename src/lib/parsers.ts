@@ -0,0 +1,249 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { parquetReadObjects } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import type { ImportOptions } from './schema';
+import type { FileFormat } from './formats';
+
+// Format-specific readers. They run inside the ingest worker and hand every
+// record to a callback, so previews and full imports share the same path.
+
+export interface ReadOptions extends ImportOptions {
+  /** Stop after this many records, for previews */
+  limit?: number;
+}
+
+export interface ReadOutput {
+  /** Rows the parser reported problems for; they are still read */
+  errorCount: number;
+  /** Delimiter used, when Papa Parse detected it */
+  delimiter?: string;
+}
+
+export type RecordCallback = (record: Record<string, unknown>) => void;
+
+export type ProgressCallback = (bytesLoaded: number) => void;
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !ArrayBuffer.isView(value);
+
+// Values the columnar store and SQLite can hold: numbers, strings, booleans and null
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (Array.isArray(value)) return JSON.stringify(value.map(normalizeValue));
+  if (ArrayBuffer.isView(value)) return String(value);
+  return value;
+};
+
+/** Flattens nested objects into dotted column names: {a: {b: 1}} becomes {"a.b": 1}. */
+export const flattenRecord = (record: Record<string, unknown>, prefix = '', out: Record<string, unknown> = {}) => {
+  for (const [key, value] of Object.entries(record)) {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, `${prefix}${key}.`, out);
+    } else {
+      out[`${prefix}${key}`] = isPlainObject(value) ? null : normalizeValue(value);
+    }
+  }
+  return out;
+};
+
+const toRecord = (value: unknown) => (isPlainObject(value) ? flattenRecord(value) : { value: normalizeValue(value) });
+
+// Column names for header cells; blank and repeated names get a unique fallback
+const uniqueNames = (cells: unknown[]) => {
+  const seen = new Set<string>();
+  return cells.map((cell, i) => {
+    const base = cell === null || cell === undefined || String(cell).trim() === '' ? `column_${i + 1}` : String(cell).trim();
+    let name = base;
+    for (let n = 2; seen.has(name); n++) name = `${base}_${n}`;
+    seen.add(name);
+    return name;
+  });
+};
+
+/**
+ * Turns rows of cells into records: drops the first `skipRows` rows, then takes
+ * the column names from the next row, or numbers the columns when there is no header.
+ */
+const createRowReader = ({ hasHeader = true, skipRows = 0 }: ReadOptions, onRecord: RecordCallback) => {
+  let skipped = 0;
+  let header: string[] | null = null;
+
+  return (cells: unknown[]) => {
+    if (skipped < skipRows) {
+      skipped++;
+      return;
+    }
+    if (!header) {
+      header = hasHeader ? uniqueNames(cells) : [];
+      if (hasHeader) return;
+    }
+    if (!hasHeader) {
+      for (let i = header.length; i < cells.length; i++) header.push(`column_${i + 1}`);
+    }
+
+    // Cells beyond the header row are not imported
+    const record: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      record[name] = normalizeValue(cells[i] ?? null);
+    });
+    onRecord(record);
+  };
+};
+
+export const readDelimited = (file: File, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback) =>
+  new Promise<ReadOutput>((resolve, reject) => {
+    const readRow = createRowReader(options, onRecord);
+    const headerRows = (options.skipRows || 0) + (options.hasHeader === false ? 0 : 1);
+    let errorCount = 0;
+    let chunks = 0;
+    let delimiter: string | undefined;
+
+    // Values stay text; the column types chosen in the preview decide how they are converted
+    Papa.parse<string[]>(file, {
+      header: false,
+      skipEmptyLines: true,
+      dynamicTyping: false,
+      delimiter: options.delimiter,
+      encoding: options.encoding,
+      preview: options.limit ? headerRows + options.limit : 0,
+      chunkSize: CHUNK_SIZE,
+      chunk: (results) => {
+        delimiter = results.meta.delimiter;
+        results.data.forEach(readRow);
+        errorCount += results.errors.length;
+        chunks++;
+        // Papa reads exactly one chunkSize slice of the file per callback
+        onProgress(Math.min(chunks * CHUNK_SIZE, file.size));
+      },
+      complete: () => resolve({ errorCount, delimiter }),
+      error: reject,
+    });
+  });
+
+// API dumps often wrap the records, e.g. {"data": [...]}: use the first array of objects found
+const findRecords = (document: unknown): unknown[] => {
+  if (Array.isArray(document)) return document;
+  if (!isPlainObject(document)) return [document];
+
+  const queue: Record<string, unknown>[] = [document];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const value of Object.values(current)) {
+      if (Array.isArray(value) && value.some(isPlainObject)) return value;
+      if (isPlainObject(value)) queue.push(value);
+    }
+  }
+  return [document];
+};
+
+export const readJSON = async (file: File, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback): Promise<ReadOutput> => {
+  const document = JSON.parse(await file.text());
+  onProgress(file.size);
+
+  const records = findRecords(document);
+  records.slice(0, options.limit || records.length).forEach(record => onRecord(toRecord(record)));
+  return { errorCount: 0 };
+};
+
+export const readNDJSON = async (file: File, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback): Promise<ReadOutput> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const limit = options.limit || Infinity;
+  let buffer = '';
+  let bytesLoaded = 0;
+  let recordCount = 0;
+  let errorCount = 0;
+
+  const addLine = (line: string) => {
+    if (!line.trim() || recordCount >= limit) return;
+    try {
+      onRecord(toRecord(JSON.parse(line)));
+      recordCount++;
+    } catch {
+      errorCount++;
+    }
+  };
+
+  while (recordCount < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesLoaded += value.byteLength;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    lines.forEach(addLine);
+    onProgress(bytesLoaded);
+  }
+  if (recordCount < limit) {
+    addLine(buffer + decoder.decode());
+  } else {
+    await reader.cancel();
+  }
+
+  return { errorCount };
+};
+
+export const listSheets = async (file: File) => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', bookSheets: true });
+  return workbook.SheetNames;
+};
+
+export const readExcel = async (file: File, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback): Promise<ReadOutput> => {
+  const { sheet, skipRows = 0, limit } = options;
+  const workbook = XLSX.read(await file.arrayBuffer(), {
+    type: 'array',
+    cellDates: true,
+    sheets: sheet,
+    // Previews only parse the rows they show
+    sheetRows: limit ? skipRows + 1 + limit : 0,
+  });
+  onProgress(file.size);
+
+  const sheetName = sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) throw new Error(`Sheet not found: ${sheet}`);
+
+  const readRow = createRowReader(options, onRecord);
+  XLSX.utils
+    .sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, raw: true, blankrows: false })
+    .forEach(readRow);
+  return { errorCount: 0 };
+};
+
+export const readParquet = async (file: File, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback): Promise<ReadOutput> => {
+  const rows = await parquetReadObjects({ file: await file.arrayBuffer(), compressors, rowEnd: options.limit });
+  onProgress(file.size);
+
+  rows.forEach(row => onRecord(flattenRecord(row)));
+  return { errorCount: 0 };
+};
+
+export const readFile = (file: File, format: FileFormat, options: ReadOptions, onRecord: RecordCallback, onProgress: ProgressCallback) => {
+  switch (format) {
+    case 'tsv':
+      return readDelimited(file, { ...options, delimiter: options.delimiter || '\t' }, onRecord, onProgress);
+    case 'json':
+      return readJSON(file, options, onRecord, onProgress);
+    case 'ndjson':
+      return readNDJSON(file, options, onRecord, onProgress);
+    case 'excel':
+      return readExcel(file, options, onRecord, onProgress);
+    case 'parquet':
+      return readParquet(file, options, onRecord, onProgress);
+    default:
+      // An empty delimiter lets Papa Parse detect it
+      return readDelimited(file, { ...options, delimiter: options.delimiter || '' }, onRecord, onProgress);
+  }
+};
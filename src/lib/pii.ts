@@ -0,0 +1,366 @@
+import type { ColumnProfile, DatasetProfile } from './profile';
+
+// Personal data detection and redaction. Columns are flagged during
+// profiling, which also keeps hashes of their values. Before anything is sent
+// to a language model, the values of flagged columns, columns computed from
+// them, any other text holding one of their values, and anything that looks
+// like an email, card number, social security number, phone number or street
+// address are masked, hashed or left out. Local queries and charts always use
+// the real values.
+
+export type PiiKind = 'email' | 'phone' | 'name' | 'card' | 'national_id' | 'address';
+
+export type PrivacyMode = 'off' | 'mask' | 'hash' | 'omit';
+
+export const PII_KINDS: { id: PiiKind; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'name', label: 'Person name' },
+  { id: 'card', label: 'Card number' },
+  { id: 'national_id', label: 'National ID' },
+  { id: 'address', label: 'Address' },
+];
+
+export const PRIVACY_MODES: { id: PrivacyMode; label: string; description: string }[] = [
+  { id: 'mask', label: 'Mask', description: 'Personal values are partly hidden, e.g. j•••@example.com or •••• 4242' },
+  { id: 'hash', label: 'Hash', description: 'Personal values are replaced by stable pseudonyms, so the model can still count and compare them' },
+  { id: 'omit', label: 'Omit', description: 'Personal columns are left out of everything sent to the model' },
+  { id: 'off', label: 'Off', description: 'Real values are sent to the model' },
+];
+
+export const piiLabel = (kind: PiiKind) => PII_KINDS.find(k => k.id === kind)!.label;
+
+const MIN_MATCH = 0.9;
+
+const PERSON_NAME = /^((first|last|full|middle|given|family|sur|customer|contact|user|person|employee|client|patient)[_\s-]?name|surname|forename|name)$/i;
+// One to four capitalized words: "Ada Lovelace", "Mary-Jane O'Neil", "J. Smith"
+const PERSON_VALUE = /^[A-Z][\p{L}'.-]*( [A-Z][\p{L}'.-]*){0,3}$/u;
+const ADDRESS_NAME = /address|street|addr$|addr[_\s-]?line/i;
+const STREET_VALUE = /^\d+[a-z]?\s+[\p{L}\s.'-]+\b(st|street|ave|avenue|rd|road|blvd|boulevard|ln|lane|dr|drive|way|ct|court|pl|place|sq|square)\b/iu;
+const NATIONAL_ID_NAME = /ssn|social[_\s-]?security|national[_\s-]?id|passport|tax[_\s-]?id|^tin$|^nin$|^nino$/i;
+const SSN_PATTERN = /^\d{3}-\d{2}-\d{4}$/;
+const NINO_PATTERN = /^[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]$/i;
+
+// Patterns scrubbed from any text, such as SQL results with renamed columns
+const EMAIL_IN_TEXT = /[^\s@"',;<>()]+@[^\s@"',;<>()]+\.[a-z]{2,}/gi;
+const CARD_IN_TEXT = /\b\d(?:[ -]?\d){12,18}\b/g;
+const SSN_IN_TEXT = /\b\d{3}-\d{2}-\d{4}\b/g;
+// A leading + or separators between digit groups, so plain numbers don't match
+const PHONE_IN_TEXT = /(?<![\w+])(?:\+\d{8,15}|\+?\(?\d{1,4}\)?(?:[\s.-]\(?\d{2,5}\)?){1,5})(?!\w)/g;
+const DATE_IN_TEXT = /\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{4}/;
+const STREET_IN_TEXT = /\b\d+[a-z]?\s+(?:[\p{L}'.-]+\s+){0,4}(st|street|ave|avenue|rd|road|blvd|boulevard|ln|lane|dr|drive|way|ct|court|pl|place|sq|square)\b\.?/giu;
+// Words of names are indexed on their own too, so "Ada" is caught without "Lovelace"
+const NAME_WORD = /[\p{L}'-]{3,}/gu;
+
+/** The Luhn checksum used by payment card numbers */
+export const isCardNumber = (text: string) => {
+  const digits = text.replace(/[\s-]/g, '');
+  if (!/^\d{13,19}$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const share = (sample: string[], test: (value: string) => boolean) =>
+  sample.length > 0 ? sample.filter(test).length / sample.length : 0;
+
+/**
+ * The kind of personal data a profiled column holds, given a sample of its
+ * non-missing values as text. Builds on the semantic type for emails and phones.
+ */
+export const detectPii = (column: ColumnProfile, sample: string[]): PiiKind | undefined => {
+  if (sample.length === 0) return undefined;
+  const texts = sample.map(value => value.trim());
+
+  // Card numbers and SSNs also fit the looser phone pattern, so they are checked first
+  if (share(texts, isCardNumber) >= MIN_MATCH) return 'card';
+  if (NATIONAL_ID_NAME.test(column.name) || share(texts, text => SSN_PATTERN.test(text) || NINO_PATTERN.test(text)) >= MIN_MATCH) {
+    return 'national_id';
+  }
+  if (column.semantic?.type === 'email') return 'email';
+  if (column.semantic?.type === 'phone') return 'phone';
+  if (column.type !== 'text') return undefined;
+  if (PERSON_NAME.test(column.name.trim()) && share(texts, text => PERSON_VALUE.test(text)) >= MIN_MATCH) return 'name';
+  if (ADDRESS_NAME.test(column.name) || share(texts, text => STREET_VALUE.test(text)) >= MIN_MATCH) return 'address';
+  return undefined;
+};
+
+const fnv1a = (text: string, basis = 0x811c9dc5) => {
+  let hash = basis;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// FNV-1a with a per-session salt: the same value gets the same pseudonym
+// within a session, but pseudonyms can't be looked up across sessions.
+const SALT = Math.random().toString(36).slice(2);
+const pseudonym = (text: string) => `#${fnv1a(SALT + text).toString(16).padStart(8, '0')}`;
+
+// Two 32-bit hashes in one exact 53-bit number, so unrelated values practically never collide
+const valueHash = (key: string) => fnv1a(key) * 2 ** 21 + (fnv1a(key, 0x050c5d1f) >>> 11);
+
+// Shorter digit runs are too common (years, amounts) to count as a match
+const MIN_DIGITS = 7;
+
+// The form a value is recognized in: case and spacing don't matter, nor do separators in numbers
+const valueKey = (text: string, kind: PiiKind) => {
+  if (kind === 'phone' || kind === 'card' || kind === 'national_id') {
+    const compact = text.replace(/[^\p{L}\d]/gu, '').toLowerCase();
+    return compact.length >= MIN_DIGITS ? compact : null;
+  }
+  const normal = text.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normal.length >= 3 ? normal : null;
+};
+
+/** Sorted hashes of a flagged column's distinct values, computed while profiling. */
+export const hashPiiValues = (values: Iterable<string>, kind: PiiKind) => {
+  const hashes: number[] = [];
+  for (const value of values) {
+    const key = valueKey(value, kind);
+    if (key) hashes.push(valueHash(key));
+    if (kind === 'name') {
+      for (const word of value.match(NAME_WORD) || []) hashes.push(valueHash(word.toLowerCase()));
+    }
+  }
+  const sorted = Float64Array.from(hashes).sort();
+  return sorted.filter((hash, i) => i === 0 || hash !== sorted[i - 1]);
+};
+
+/** The values of one flagged column, recognizable wherever they show up */
+export interface PiiValues {
+  kind: PiiKind;
+  hashes: Float64Array;
+}
+
+const includes = (hashes: Float64Array, hash: number) => {
+  let low = 0;
+  let high = hashes.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (hashes[middle] === hash) return true;
+    if (hashes[middle] < hash) low = middle + 1;
+    else high = middle - 1;
+  }
+  return false;
+};
+
+/** The kind of flagged value the text is, in any case or spacing */
+const knownKind = (text: string, values: PiiValues[]) =>
+  values.find(({ kind, hashes }) => {
+    const key = valueKey(text, kind);
+    return key !== null && includes(hashes, valueHash(key));
+  })?.kind;
+
+const mask = (text: string, kind: PiiKind | undefined) => {
+  switch (kind) {
+    case 'email': {
+      const [user, domain] = text.split('@');
+      return domain === undefined ? '•••' : `${user.slice(0, 1)}•••@${domain}`;
+    }
+    case 'card':
+    case 'phone':
+    case 'national_id': {
+      const digits = text.replace(/\D/g, '');
+      return `•••• ${digits.slice(-(kind === 'national_id' ? 2 : 4))}`;
+    }
+    case 'name':
+      return text.split(/\s+/).map(word => `${word.slice(0, 1)}.`).join(' ');
+    default:
+      return '•••';
+  }
+};
+
+/** One value of a flagged column as it may be sent to the model. Omit mode is handled by dropping the column. */
+export const redactValue = (value: unknown, kind: PiiKind, mode: PrivacyMode): unknown => {
+  if (mode === 'off' || value === null || value === undefined || value === '') return value;
+  const text = String(value);
+  return mode === 'hash' ? pseudonym(text) : mask(text, kind);
+};
+
+const isPhoneText = (text: string) => {
+  const digits = text.replace(/\D/g, '').length;
+  return digits >= 8 && digits <= 15 && !DATE_IN_TEXT.test(text);
+};
+
+/**
+ * Replaces emails, card numbers, social security numbers, phone numbers and
+ * street addresses inside free text, and the words of names found in `values`.
+ */
+export const scrubText = (text: string, mode: PrivacyMode, values: PiiValues[] = []) => {
+  if (mode === 'off') return text;
+  const replace = (kind: PiiKind) => (match: string) => (mode === 'mask' ? mask(match, kind) : mode === 'hash' ? pseudonym(match) : '[redacted]');
+  const names = values.filter(v => v.kind === 'name');
+  return text
+    .replace(EMAIL_IN_TEXT, replace('email'))
+    .replace(CARD_IN_TEXT, match => (isCardNumber(match) ? replace('card')(match) : match))
+    .replace(SSN_IN_TEXT, replace('national_id'))
+    .replace(PHONE_IN_TEXT, match => (isPhoneText(match) ? replace('phone')(match) : match))
+    .replace(STREET_IN_TEXT, replace('address'))
+    .replace(NAME_WORD, word => (names.length > 0 && knownKind(word, names) ? replace('name')(word) : word));
+};
+
+/** Personal-data handling for everything sent to the model */
+export interface Privacy {
+  mode: PrivacyMode;
+  /** Flagged columns of every table the model can query, by name */
+  columns: Map<string, PiiKind>;
+  /** The values of those columns, to catch them under other names or inside text */
+  values: PiiValues[];
+}
+
+export const NO_PRIVACY: Privacy = { mode: 'off', columns: new Map(), values: [] };
+
+/** Privacy over the given tables' profiles. A column name flagged in any table counts as flagged everywhere. */
+export const workspacePrivacy = (mode: PrivacyMode, profiles: DatasetProfile[]): Privacy => {
+  const flagged = profiles.flatMap(profile => profile.columns.filter(column => column.pii));
+  return {
+    mode,
+    columns: new Map(flagged.map(column => [column.name, column.pii!])),
+    values: flagged.filter(column => column.piiValues).map(column => ({ kind: column.pii!, hashes: column.piiValues! })),
+  };
+};
+
+// A value of a column that isn't flagged: a known personal value is redacted whole, other text is scrubbed
+const redactUnflagged = (value: unknown, privacy: Privacy) => {
+  if (typeof value !== 'string' && typeof value !== 'number') return value;
+  const kind = knownKind(String(value), privacy.values);
+  if (kind) return privacy.mode === 'omit' ? '[redacted]' : redactValue(value, kind, privacy.mode);
+  return typeof value === 'string' ? scrubText(value, privacy.mode, privacy.values) : value;
+};
+
+/** Rows as they may be sent to the model: flagged columns redacted or dropped, other text scrubbed. */
+export const redactRows = (rows: Record<string, unknown>[], privacy: Privacy) => {
+  if (privacy.mode === 'off') return rows;
+  return rows.map(row => {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+      const kind = privacy.columns.get(key);
+      if (kind && privacy.mode === 'omit') continue;
+      redacted[key] = kind ? redactValue(value, kind, privacy.mode) : redactUnflagged(value, privacy);
+    }
+    return redacted;
+  });
+};
+
+interface SqlToken {
+  text: string;
+  /** Identifiers are lowercased, as SQLite matches them without case */
+  name: boolean;
+  quoted: boolean;
+}
+
+// String literals and comments are dropped; quoted identifiers keep their inner text
+const SQL_TOKEN = /'(?:[^']|'')*'|--[^\n]*|\/\*[\s\S]*?\*\/|"((?:[^"]|"")*)"|`([^`]*)`|\[([^\]]*)\]|([\p{L}_][\p{L}\d_$]*)|(\S)/gu;
+
+const tokenizeSql = (sql: string): SqlToken[] =>
+  [...sql.matchAll(SQL_TOKEN)].flatMap(([, double, backtick, bracket, word, symbol]): SqlToken[] => {
+    const quoted = double ?? backtick ?? bracket;
+    if (quoted !== undefined) return [{ text: quoted.replace(/""/g, '"').toLowerCase(), name: true, quoted: true }];
+    if (word !== undefined) return [{ text: word.toLowerCase(), name: true, quoted: false }];
+    if (symbol !== undefined) return [{ text: symbol, name: false, quoted: false }];
+    return [];
+  });
+
+const isKeyword = (token: SqlToken | undefined, words: Set<string>) => !!token && token.name && !token.quoted && words.has(token.text);
+const isSymbol = (token: SqlToken | undefined, symbol: string) => !!token && !token.name && token.text === symbol;
+
+const SELECT = new Set(['select']);
+const AS = new Set(['as']);
+const END = new Set(['end']);
+const SELECT_END = new Set(['from', 'where', 'group', 'order', 'limit', 'having', 'window', 'union', 'except', 'intersect']);
+const NOT_ALIAS = new Set([...SELECT_END, 'select', 'as', 'distinct', 'all', 'case', 'when', 'then', 'else', 'end', 'and', 'or', 'not', 'is', 'null', 'in', 'like', 'asc', 'desc']);
+// What these return are counts and lengths, not the values passed to them
+const COUNTING = new Set(['count', 'length', 'sum', 'avg', 'total']);
+
+// Every item of every SELECT list in the statement, subqueries included
+const selectItems = (tokens: SqlToken[]) => {
+  const items: SqlToken[][] = [];
+  tokens.forEach((token, start) => {
+    if (!isKeyword(token, SELECT)) return;
+    let depth = 0;
+    let item: SqlToken[] = [];
+    for (let i = start + 1; i < tokens.length; i++) {
+      const current = tokens[i];
+      if (depth === 0 && (isSymbol(current, ')') || isKeyword(current, SELECT_END))) break;
+      if (depth === 0 && isSymbol(current, ',')) {
+        items.push(item);
+        item = [];
+        continue;
+      }
+      if (isSymbol(current, '(')) depth++;
+      if (isSymbol(current, ')')) depth--;
+      item.push(current);
+    }
+    items.push(item);
+  });
+  return items;
+};
+
+// `expr AS alias`, or `expr alias` right after a column name, a closing parenthesis or CASE ... END
+const aliasOf = (item: SqlToken[]) => {
+  const last = item[item.length - 1];
+  const before = item[item.length - 2];
+  if (!last?.name || !before) return undefined;
+  if (isKeyword(before, AS)) return last.text;
+  if (isKeyword(last, NOT_ALIAS)) return undefined;
+  if (isKeyword(before, END)) return last.text;
+  if (isKeyword(before, NOT_ALIAS)) return undefined;
+  return before.name || isSymbol(before, ')') ? last.text : undefined;
+};
+
+// The kind of the first flagged column the tokens use, outside counting functions
+const flaggedIn = (tokens: SqlToken[], flagged: Map<string, PiiKind>) => {
+  const counting: boolean[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isSymbol(token, '(')) {
+      counting.push(counting[counting.length - 1] || isKeyword(tokens[i - 1], COUNTING));
+    } else if (isSymbol(token, ')')) {
+      counting.pop();
+    } else if (token.name && !counting[counting.length - 1] && flagged.has(token.text)) {
+      return flagged.get(token.text);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * The kind of personal data in each output column of a query, traced back to
+ * the flagged columns it is computed from. Renaming (`customer_name AS who`),
+ * wrapping (`lower(email)`) or passing a column through subqueries doesn't
+ * hide it; counting it does.
+ */
+export const queryOutputKinds = (query: string, outputs: string[], flagged: Map<string, PiiKind>) => {
+  const kinds = new Map([...flagged].map(([name, kind]) => [name.toLowerCase(), kind]));
+  const items = selectItems(tokenizeSql(query)).map(item => ({ item, alias: aliasOf(item) }));
+  // An alias of a flagged expression is flagged in turn, which can flag aliases built on it
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const { item, alias } of items) {
+      if (!alias || kinds.has(alias)) continue;
+      const kind = flaggedIn(item, kinds);
+      if (kind) {
+        kinds.set(alias, kind);
+        changed = true;
+      }
+    }
+  }
+
+  const result = new Map<string, PiiKind>();
+  outputs.forEach(output => {
+    // Unnamed expressions are named after their own text, e.g. "lower(email)"
+    const kind = kinds.get(output.toLowerCase()) || flaggedIn(tokenizeSql(output), kinds);
+    if (kind) result.set(output, kind);
+  });
+  return result;
+};
@@ -0,0 +1,131 @@
+// Column profiles for a whole dataset, computed once per dataset in a worker
+// and shared by the overview, the chart builder and the chat assistant.
+
+import { toTable, type ColumnarTable } from './columnar';
+import type { CorrelationMatrix } from './correlation';
+import type { Insight } from './insights';
+import type { PiiKind } from './pii';
+import type { SemanticInfo } from './semantic';
+
+export type ValueType = 'numeric' | 'date' | 'boolean' | 'text' | 'empty';
+
+/** A histogram bucket covering [start, end); the last bucket also includes `end` */
+export interface Bin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface NumericStats {
+  count: number;
+  min: number;
+  max: number;
+  sum: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  quantiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  zeroCount: number;
+  negativeCount: number;
+  histogram: Bin[];
+}
+
+export interface ColumnProfile {
+  name: string;
+  /** The most common kind of value in the column */
+  type: ValueType;
+  /** Share of non-missing values that are of `type`, from 0 to 1 */
+  confidence: number;
+  typeCounts: Record<Exclude<ValueType, 'empty'>, number>;
+  count: number;
+  nullCount: number;
+  /** Empty or whitespace-only strings */
+  blankCount: number;
+  missingCount: number;
+  uniqueCount: number;
+  topValues: { value: string; count: number }[];
+  /** The first few distinct values, in the order they appear */
+  examples: string[];
+  /** Over the values that parse as numbers */
+  numeric?: NumericStats;
+  /** Over the values stored as text */
+  text?: { minLength: number; maxLength: number; meanLength: number };
+  /** Earliest and latest of the values that parse as dates, as ISO strings, with their density over time in epoch milliseconds */
+  dates?: { min: string; max: string; timeline: Bin[] };
+  /** What the values mean (emails, prices, country codes...), when something specific fits */
+  semantic?: SemanticInfo;
+  /** Set when the values look like personal data */
+  pii?: PiiKind;
+  /** Hashes of the values of a flagged column, so redaction can recognize them anywhere */
+  piiValues?: Float64Array;
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+  /** Between the numeric columns */
+  correlation: CorrelationMatrix;
+  /** The most notable findings, best first */
+  insights: Insight[];
+}
+
+// Sent columnar: a row view posts its compact table instead of cloned rows
+export type ProfileWorkerRequest = { table: ColumnarTable };
+
+export type ProfileWorkerResponse =
+  | { type: 'progress'; rowsScanned: number }
+  | { type: 'done'; profile: DatasetProfile }
+  | { type: 'error'; error: string };
+
+export interface ProfileJob {
+  promise: Promise<DatasetProfile>;
+  /** Share of rows scanned so far, from 0 to 1 */
+  progress: number;
+  subscribe: (listener: (progress: number) => void) => () => void;
+}
+
+// One job per dataset: every consumer of the same rows shares the same scan
+const jobs = new WeakMap<object, ProfileJob>();
+
+export const profileDataset = (rows: Record<string, unknown>[]): ProfileJob => {
+  const existing = jobs.get(rows);
+  if (existing) return existing;
+
+  const listeners = new Set<(progress: number) => void>();
+  const job: ProfileJob = {
+    progress: 0,
+    promise: new Promise<DatasetProfile>((resolve, reject) => {
+      const worker = new Worker(new URL('./profile.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ProfileWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+          job.progress = rows.length > 0 ? response.rowsScanned / rows.length : 1;
+          listeners.forEach(listener => listener(job.progress));
+          return;
+        }
+        worker.terminate();
+        if (response.type === 'done') resolve(response.profile);
+        else reject(new Error(response.error));
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Profile worker failed'));
+      };
+
+      const request: ProfileWorkerRequest = { table: toTable(rows) };
+      worker.postMessage(request);
+    }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  // A failed scan can be retried by the next consumer
+  job.promise.catch(() => jobs.delete(rows));
+
+  jobs.set(rows, job);
+  return job;
+};
+
+export const getColumnProfile = (profile: DatasetProfile | null, column: string) =>
+  profile?.columns.find(c => c.name === column);
@@ -0,0 +1,14 @@
+import { rowView } from './columnar';
+import { profileRows } from './profiler';
+import type { ProfileWorkerRequest, ProfileWorkerResponse } from './profile';
+
+const post = (message: ProfileWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ProfileWorkerRequest>) => {
+  try {
+    const profile = profileRows(rowView(event.data.table), rowsScanned => post({ type: 'progress', rowsScanned }));
+    post({ type: 'done', profile });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
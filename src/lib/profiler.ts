@@ -0,0 +1,246 @@
+// Single-pass column profiling. Every value of every row is fed to a
+// per-column accumulator, so the profile covers the whole dataset rather than
+// a sample. Runs inside the profile worker; the types live in ./profile.
+
+import { correlationMatrix } from './correlation';
+import { generateInsights } from './insights';
+import { detectPii, hashPiiValues } from './pii';
+import { detectSemanticType } from './semantic';
+import type { Bin, ColumnProfile, DatasetProfile, NumericStats, ValueType } from './profile';
+
+const TOP_VALUES = 10;
+const EXAMPLES = 5;
+const HISTOGRAM_BINS = 20;
+const TIMELINE_BINS = 30;
+// Values kept per column for semantic type and personal data detection
+const SEMANTIC_SAMPLE = 1000;
+const QUANTILES = [0.05, 0.25, 0.5, 0.75, 0.95] as const;
+
+// Dates written as 2024-01-31, 2024/01/31, 31.01.2024 or 1/31/2024, optionally with a time
+const DATE_PATTERN = /^(\d{4}[-/]\d{1,2}[-/]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const BOOLEAN_TEXT = new Set(['true', 'false']);
+
+type Classified =
+  | { type: 'numeric'; number: number }
+  | { type: 'date'; time: number }
+  | { type: 'boolean' }
+  | { type: 'text' };
+
+const classify = (value: unknown): Classified => {
+  if (typeof value === 'number') return Number.isFinite(value) ? { type: 'numeric', number: value } : { type: 'text' };
+  if (typeof value === 'boolean') return { type: 'boolean' };
+
+  const text = String(value).trim();
+  if (BOOLEAN_TEXT.has(text.toLowerCase())) return { type: 'boolean' };
+  const number = Number(text);
+  if (!isNaN(number)) return { type: 'numeric', number };
+  if (DATE_PATTERN.test(text)) {
+    const time = Date.parse(text);
+    if (!isNaN(time)) return { type: 'date', time };
+  }
+  return { type: 'text' };
+};
+
+/** Equal-width buckets between the smallest and largest of the sorted values. */
+export const histogram = (sorted: Float64Array, bins: number): Bin[] => {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ start: min, end: max, count: sorted.length }];
+
+  const width = (max - min) / bins;
+  const result = Array.from({ length: bins }, (_, i) => ({
+    start: min + width * i,
+    end: i === bins - 1 ? max : min + width * (i + 1),
+    count: 0,
+  }));
+  for (let i = 0; i < sorted.length; i++) {
+    result[Math.min(Math.floor((sorted[i] - min) / width), bins - 1)].count++;
+  }
+  return result;
+};
+
+/** Linear interpolation between the closest ranks, so even-length medians average the middle pair. */
+export const quantile = (sorted: Float64Array | number[], q: number) => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+class ColumnAccumulator {
+  private nullCount = 0;
+  private blankCount = 0;
+  private typeCounts: Record<Exclude<ValueType, 'empty'>, number> = { numeric: 0, date: 0, boolean: 0, text: 0 };
+  private counts = new Map<string, number>();
+  private numbers: number[] = [];
+  private sum = 0;
+  private times: number[] = [];
+  private textCount = 0;
+  private minLength = Infinity;
+  private maxLength = 0;
+  private totalLength = 0;
+  private sample: string[] = [];
+
+  constructor(readonly name: string) {}
+
+  add(value: unknown) {
+    if (value === null || value === undefined) {
+      this.nullCount++;
+      return;
+    }
+    if (typeof value === 'string' && value.trim() === '') {
+      this.blankCount++;
+      return;
+    }
+
+    const key = String(value);
+    this.counts.set(key, (this.counts.get(key) || 0) + 1);
+    if (this.sample.length < SEMANTIC_SAMPLE) this.sample.push(key);
+
+    const classified = classify(value);
+    this.typeCounts[classified.type]++;
+    if (classified.type === 'numeric') {
+      this.numbers.push(classified.number);
+      this.sum += classified.number;
+    } else if (classified.type === 'date') {
+      this.times.push(classified.time);
+    }
+    if (typeof value === 'string') {
+      this.textCount++;
+      this.minLength = Math.min(this.minLength, value.length);
+      this.maxLength = Math.max(this.maxLength, value.length);
+      this.totalLength += value.length;
+    }
+  }
+
+  private numericStats(): NumericStats | undefined {
+    if (this.numbers.length === 0) return undefined;
+    const sorted = Float64Array.from(this.numbers).sort();
+    const mean = this.sum / sorted.length;
+    let squares = 0;
+    for (let i = 0; i < sorted.length; i++) squares += (sorted[i] - mean) ** 2;
+
+    const [p5, p25, p50, p75, p95] = QUANTILES.map(q => quantile(sorted, q));
+    let zeroCount = 0;
+    let negativeCount = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i] === 0) zeroCount++;
+      else if (sorted[i] < 0) negativeCount++;
+    }
+
+    return {
+      count: sorted.length,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      sum: this.sum,
+      mean,
+      median: p50,
+      // Sample standard deviation; a single value has none
+      stddev: sorted.length > 1 ? Math.sqrt(squares / (sorted.length - 1)) : 0,
+      quantiles: { p5, p25, p50, p75, p95 },
+      zeroCount,
+      negativeCount,
+      histogram: histogram(sorted, HISTOGRAM_BINS),
+    };
+  }
+
+  // Maps keep insertion order, so the first keys are the first distinct values seen
+  private examples() {
+    const examples: string[] = [];
+    for (const value of this.counts.keys()) {
+      if (examples.length === EXAMPLES) break;
+      examples.push(value);
+    }
+    return examples;
+  }
+
+  private dateStats(): ColumnProfile['dates'] {
+    if (this.times.length === 0) return undefined;
+    const sorted = Float64Array.from(this.times).sort();
+    return {
+      min: new Date(sorted[0]).toISOString(),
+      max: new Date(sorted[sorted.length - 1]).toISOString(),
+      timeline: histogram(sorted, TIMELINE_BINS),
+    };
+  }
+
+  build(rowCount: number): ColumnProfile {
+    const present = rowCount - this.nullCount - this.blankCount;
+    const [type, matching] = present === 0
+      ? ['empty' as const, 0]
+      : (Object.entries(this.typeCounts) as [ValueType, number][]).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+    const topValues = [...this.counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+
+    const profile: ColumnProfile = {
+      name: this.name,
+      type,
+      confidence: present > 0 ? matching / present : 1,
+      typeCounts: { ...this.typeCounts },
+      count: rowCount,
+      nullCount: this.nullCount,
+      blankCount: this.blankCount,
+      missingCount: this.nullCount + this.blankCount,
+      uniqueCount: this.counts.size,
+      topValues,
+      examples: this.examples(),
+      numeric: this.numericStats(),
+      text: this.textCount > 0
+        ? { minLength: this.minLength, maxLength: this.maxLength, meanLength: this.totalLength / this.textCount }
+        : undefined,
+      dates: this.dateStats(),
+    };
+    profile.semantic = detectSemanticType(profile, this.sample);
+    profile.pii = detectPii(profile, this.sample);
+    if (profile.pii) profile.piiValues = hashPiiValues(this.counts.keys(), profile.pii);
+    return profile;
+  }
+}
+
+/** Profiles rows in chunks, reporting how many rows have been scanned after each one. */
+export const profileRows = (
+  rows: Record<string, unknown>[],
+  onProgress?: (rowsScanned: number) => void,
+  chunkSize = 50_000
+): DatasetProfile => {
+  const accumulators = new Map<string, ColumnAccumulator>();
+  let scanned = 0;
+  const columnFor = (name: string) => {
+    let accumulator = accumulators.get(name);
+    if (!accumulator) {
+      accumulator = new ColumnAccumulator(name);
+      // Columns first seen later in the data were missing in the earlier rows
+      for (let i = 0; i < scanned; i++) accumulator.add(null);
+      accumulators.set(name, accumulator);
+    }
+    return accumulator;
+  };
+
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    const end = Math.min(start + chunkSize, rows.length);
+    for (let i = start; i < end; i++) {
+      const row = rows[i];
+      for (const name of Object.keys(row)) columnFor(name);
+      accumulators.forEach(accumulator => accumulator.add(row[accumulator.name]));
+      scanned++;
+    }
+    onProgress?.(scanned);
+  }
+
+  const columns = [...accumulators.values()].map(accumulator => accumulator.build(rows.length));
+  const numeric = columns.filter(column => column.type === 'numeric').map(column => column.name);
+  const profile: DatasetProfile = {
+    rowCount: rows.length,
+    columns,
+    correlation: correlationMatrix(rows, numeric),
+    insights: [],
+  };
+  // Insights read the finished column profiles, so they come last
+  profile.insights = generateInsights(rows, profile);
+  return profile;
+};
@@ -0,0 +1,189 @@
+import { parse, parseISO, format, isValid } from 'date-fns';
+import { isCurrencyText, isPercentText, parseNumber } from './semantic';
+
+// Column types chosen in the import preview, how they are inferred from raw
+// values and how each value is converted when the import is committed.
+
+export type ColumnType = 'string' | 'integer' | 'float' | 'boolean' | 'date' | 'categorical';
+
+export interface ColumnSpec {
+  /** Column name in the source file */
+  source: string;
+  /** Name the column gets after import */
+  name: string;
+  type: ColumnType;
+  /** date-fns format string, used when type is 'date' */
+  dateFormat?: string;
+  include: boolean;
+}
+
+export interface ImportOptions {
+  sheet?: string;
+  /** Empty string lets Papa Parse detect the delimiter */
+  delimiter?: string;
+  encoding?: string;
+  hasHeader?: boolean;
+  skipRows?: number;
+  schema?: ColumnSpec[];
+}
+
+export const COLUMN_TYPES: { id: ColumnType; label: string }[] = [
+  { id: 'string', label: 'String' },
+  { id: 'integer', label: 'Integer' },
+  { id: 'float', label: 'Float' },
+  { id: 'boolean', label: 'Boolean' },
+  { id: 'date', label: 'Date' },
+  { id: 'categorical', label: 'Categorical' },
+];
+
+/** Matches any ISO 8601 timestamp, including time zones and fractional seconds */
+export const ISO_DATE_FORMAT = 'ISO 8601';
+
+// Tried in order during inference, so the most specific formats come first
+export const DATE_FORMATS = [
+  'yyyy-MM-dd',
+  "yyyy-MM-dd'T'HH:mm:ss",
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy/MM/dd',
+  'MM/dd/yyyy',
+  'dd/MM/yyyy',
+  'dd.MM.yyyy',
+  'dd-MM-yyyy',
+  ISO_DATE_FORMAT,
+];
+
+export const DELIMITERS = [
+  { id: ',', label: 'Comma (,)' },
+  { id: ';', label: 'Semicolon (;)' },
+  { id: '\t', label: 'Tab' },
+  { id: '|', label: 'Pipe (|)' },
+];
+
+export const ENCODINGS = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252' },
+  { id: 'iso-8859-1', label: 'ISO-8859-1' },
+];
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', 't']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', 'f']);
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const FLOAT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const LEADING_ZERO_PATTERN = /^[+-]?0\d/;
+// Integers longer than this lose precision as numbers, so they stay strings (IDs, card numbers)
+const MAX_INTEGER_DIGITS = 15;
+const MAX_CATEGORIES = 20;
+
+export const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const parseDate = (text: string, dateFormat: string) => {
+  const date = dateFormat === ISO_DATE_FORMAT ? parseISO(text) : parse(text, dateFormat, new Date(0));
+  return isValid(date) ? date : null;
+};
+
+const detectDateFormat = (values: string[]) =>
+  DATE_FORMATS.find(dateFormat => values.every(value => parseDate(value, dateFormat) !== null));
+
+/** Suggests a type for a column from a sample of its raw values. */
+export const inferColumnSpec = (source: string, sample: unknown[]): ColumnSpec => {
+  const spec: ColumnSpec = { source, name: source, type: 'string', include: true };
+  const values = sample.filter(value => !isBlank(value));
+  if (values.length === 0) return spec;
+
+  // Already typed by the format (JSON, Excel, Parquet)
+  if (values.every(value => typeof value === 'boolean')) return { ...spec, type: 'boolean' };
+  if (values.every(value => typeof value === 'number')) {
+    return { ...spec, type: values.every(value => Number.isInteger(value)) ? 'integer' : 'float' };
+  }
+
+  const texts = values.map(value => String(value).trim());
+  const lower = texts.map(text => text.toLowerCase());
+
+  if (lower.every(text => TRUE_VALUES.has(text) || FALSE_VALUES.has(text))) {
+    return { ...spec, type: 'boolean' };
+  }
+  if (texts.every(text => FLOAT_PATTERN.test(text))) {
+    // Leading zeros (zip codes, account numbers) would be lost as numbers,
+    // even when other values of the column have a decimal point
+    if (texts.some(text => LEADING_ZERO_PATTERN.test(text))) return spec;
+    if (texts.every(text => INTEGER_PATTERN.test(text))) {
+      const keepAsText = texts.some(text => text.replace(/^[+-]/, '').length > MAX_INTEGER_DIGITS);
+      return keepAsText ? spec : { ...spec, type: 'integer' };
+    }
+    return { ...spec, type: 'float' };
+  }
+  // Amounts like "$1,200.50" and "12.5%" are imported as plain numbers
+  if (texts.every(text => isCurrencyText(text) || isPercentText(text))) {
+    return { ...spec, type: 'float' };
+  }
+
+  const dateFormat = detectDateFormat(texts);
+  if (dateFormat) return { ...spec, type: 'date', dateFormat };
+
+  const distinct = new Set(texts).size;
+  if (distinct <= MAX_CATEGORIES && distinct < texts.length / 2) {
+    return { ...spec, type: 'categorical' };
+  }
+  return spec;
+};
+
+export const inferSchema = (columns: string[], records: Record<string, unknown>[]) =>
+  columns.map(column => inferColumnSpec(column, records.map(record => record[column])));
+
+/** Converts one raw value to the column's type; values that do not fit become null. */
+export const convertValue = (value: unknown, spec: ColumnSpec): unknown => {
+  if (isBlank(value)) return null;
+  const text = String(value).trim();
+
+  switch (spec.type) {
+    case 'integer': {
+      if (typeof value === 'number') return Number.isFinite(value) ? Math.trunc(value) : null;
+      const number = parseNumber(text);
+      return Number.isInteger(number) ? number : null;
+    }
+    case 'float': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+      const number = parseNumber(text);
+      return isNaN(number) ? null : number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.has(lower) || lower === '1') return true;
+      if (FALSE_VALUES.has(lower) || lower === '0') return false;
+      return null;
+    }
+    case 'date': {
+      if (!spec.dateFormat) return text;
+      const date = parseDate(text, spec.dateFormat);
+      if (!date) return null;
+      // Valid ISO timestamps are already in the canonical form
+      if (spec.dateFormat === ISO_DATE_FORMAT) return text;
+      return /[Hhms]/.test(spec.dateFormat) ? format(date, "yyyy-MM-dd'T'HH:mm:ss") : format(date, 'yyyy-MM-dd');
+    }
+    default:
+      return text;
+  }
+};
+
+/**
+ * Returns a function that applies the schema to a parsed record: converts,
+ * renames and drops columns. Columns missing from the schema pass through.
+ */
+export const createRecordMapper = (schema?: ColumnSpec[]) => {
+  if (!schema) return (record: Record<string, unknown>) => record;
+  const bySource = new Map(schema.map(spec => [spec.source, spec]));
+
+  return (record: Record<string, unknown>) => {
+    const mapped: Record<string, unknown> = {};
+    schema.forEach(spec => {
+      if (spec.include) mapped[spec.name] = convertValue(record[spec.source], spec);
+    });
+    for (const [key, value] of Object.entries(record)) {
+      if (!bySource.has(key)) mapped[key] = value;
+    }
+    return mapped;
+  };
+};
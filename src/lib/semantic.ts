@@ -0,0 +1,161 @@
+import { ALPHA_2_CODES, ALPHA_3_CODES } from './countries';
+import type { ColumnProfile } from './profile';
+
+// What a column's values mean, on top of the storage type the profiler
+// reports: a text column may hold emails, a numeric one prices. Detection
+// looks at the column name and a sample of its values.
+
+export type SemanticType =
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'currency'
+  | 'percent'
+  | 'boolean'
+  | 'country'
+  | 'latitude'
+  | 'longitude'
+  | 'coordinates'
+  | 'identifier';
+
+export interface SemanticInfo {
+  type: SemanticType;
+  /** Share of the sampled values that fit the type, from 0 to 1; guesses from the name take the type's confidence */
+  confidence: number;
+}
+
+export const SEMANTIC_TYPES: { id: SemanticType; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'url', label: 'URL' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'currency', label: 'Currency' },
+  { id: 'percent', label: 'Percent' },
+  { id: 'boolean', label: 'Yes/No' },
+  { id: 'country', label: 'Country' },
+  { id: 'latitude', label: 'Latitude' },
+  { id: 'longitude', label: 'Longitude' },
+  { id: 'coordinates', label: 'Lat/Long' },
+  { id: 'identifier', label: 'ID' },
+];
+
+export const semanticLabel = (type: SemanticType) => SEMANTIC_TYPES.find(t => t.id === type)!.label;
+
+// Below this share of matching values a pattern is treated as coincidence
+const MIN_MATCH = 0.9;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+$/i;
+// Digits with the usual separators; the separators or a name hint tell phones apart from plain numbers
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+// Phone numbers have at most 15 digits (E.164), unlike card numbers, and aren't written like US social security numbers
+const isPhone = (text: string) =>
+  PHONE_PATTERN.test(text) && text.replace(/\D/g, '').length <= 15 && !/^\d{3}-\d{2}-\d{4}$/.test(text);
+const PHONE_SEPARATORS = /[\s().-]|^\+/;
+const CURRENCY_SYMBOL = /[$€£¥₹₩₽₺₪]|\b(USD|EUR|GBP|JPY|CNY|INR|CAD|AUD|CHF|SEK|NOK|DKK|BRL|MXN|ZAR)\b/i;
+const PERCENT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)\s?%$/;
+const COORDINATES_PATTERN = /^\(?\s*([+-]?\d{1,2}(\.\d+)?)\s*[,;]\s*([+-]?\d{1,3}(\.\d+)?)\s*\)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const YES_NO = new Set(['yes', 'no', 'y', 'n', 'true', 'false', 't', 'f']);
+
+const COUNTRY_NAME = /country|nation|^iso/i;
+const PHONE_NAME = /phone|mobile|cell|fax|tel/i;
+const CURRENCY_NAME = /price|cost|revenue|amount|profit|sales|income|spend|fee|salary|balance|payment|usd|eur|gbp/i;
+const PERCENT_NAME = /pct|percent|rate|ratio|share/i;
+const LATITUDE_NAME = /^lat(itude)?$|[_\s-]lat(itude)?$/i;
+const LONGITUDE_NAME = /^(lon|lng|long|longitude)$|[_\s-](lon|lng|long|longitude)$/i;
+
+// order_id, Order ID, orderId, sku_code...
+export const isKeyName = (name: string) =>
+  /(^|[_\s-])(id|key|code|number|no)$/i.test(name) || /[a-z](Id|ID|Key|Code|Number)$/.test(name);
+
+/**
+ * Parses numbers written with currency symbols, thousands separators,
+ * accounting parentheses or a percent sign: "$1,200.50", "(45.00)", "12.5%".
+ * Percentages stay in points, so "12.5%" is 12.5. Returns NaN for anything else.
+ */
+export const parseNumber = (text: string) => {
+  let cleaned = text.trim().replace(CURRENCY_SYMBOL, '').replace(/[\s,]/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  if (negative) cleaned = cleaned.slice(1, -1);
+  cleaned = cleaned.replace(/%$/, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return NaN;
+  return negative ? -Number(cleaned) : Number(cleaned);
+};
+
+/** Whether the text is an amount with a currency symbol or code */
+export const isCurrencyText = (text: string) => CURRENCY_SYMBOL.test(text) && !isNaN(parseNumber(text));
+
+export const isPercentText = (text: string) => PERCENT_PATTERN.test(text.trim());
+
+const share = (sample: string[], test: (value: string) => boolean) =>
+  sample.length > 0 ? sample.filter(test).length / sample.length : 0;
+
+const inRange = (column: ColumnProfile, limit: number) =>
+  !!column.numeric && column.numeric.min >= -limit && column.numeric.max <= limit;
+
+// Semantic types that make poor axes or groups: every value is distinct, or the numbers are not measures
+const NOT_CATEGORIES = new Set<SemanticType | undefined>(['identifier', 'email', 'url', 'phone', 'coordinates']);
+const NOT_MEASURES = new Set<SemanticType | undefined>(['identifier', 'latitude', 'longitude', 'boolean', 'phone']);
+
+/** A numeric column whose values are worth adding up or averaging */
+export const isMeasure = (column: ColumnProfile) => column.type === 'numeric' && !NOT_MEASURES.has(column.semantic?.type);
+
+/** A text or boolean column with few enough distinct values to group by */
+export const isCategory = (column: ColumnProfile, maxCategories: number) =>
+  (column.type === 'text' || column.type === 'boolean') && !NOT_CATEGORIES.has(column.semantic?.type) &&
+  column.uniqueCount > 1 && column.uniqueCount <= maxCategories;
+
+/**
+ * The semantic type of a profiled column, given a sample of its non-missing
+ * values as text, or undefined when nothing specific fits.
+ */
+export const detectSemanticType = (column: ColumnProfile, sample: string[]): SemanticInfo | undefined => {
+  if (sample.length === 0) return undefined;
+  const texts = sample.map(value => value.trim());
+  const match = (type: SemanticType, test: (value: string) => boolean): SemanticInfo | undefined => {
+    const confidence = share(texts, test);
+    return confidence >= MIN_MATCH ? { type, confidence } : undefined;
+  };
+  const present = column.count - column.missingCount;
+  const uniqueness = present > 0 ? column.uniqueCount / present : 0;
+
+  if (column.type === 'numeric') {
+    const numeric = column.numeric!;
+    if (LATITUDE_NAME.test(column.name) && inRange(column, 90)) return { type: 'latitude', confidence: column.confidence };
+    if (LONGITUDE_NAME.test(column.name) && inRange(column, 180)) return { type: 'longitude', confidence: column.confidence };
+    if (isKeyName(column.name) && uniqueness >= 0.95 && Number.isInteger(numeric.min) && Number.isInteger(numeric.max)) {
+      return { type: 'identifier', confidence: uniqueness };
+    }
+    if (PERCENT_NAME.test(column.name)) return { type: 'percent', confidence: column.confidence };
+    if (CURRENCY_NAME.test(column.name)) return { type: 'currency', confidence: column.confidence };
+    if (column.uniqueCount === 2 && numeric.min === 0 && numeric.max === 1 && /^(is|has)[_A-Z\s-]/.test(column.name)) {
+      return { type: 'boolean', confidence: 1 };
+    }
+    return undefined;
+  }
+
+  if (column.type === 'boolean') return { type: 'boolean', confidence: column.confidence };
+  if (column.type !== 'text') return undefined;
+
+  const lower = texts.map(text => text.toLowerCase());
+  if (column.uniqueCount <= 2 && lower.every(text => YES_NO.has(text))) return { type: 'boolean', confidence: 1 };
+
+  return (
+    match('email', text => EMAIL_PATTERN.test(text)) ||
+    match('url', text => URL_PATTERN.test(text)) ||
+    match('currency', isCurrencyText) ||
+    match('percent', isPercentText) ||
+    match('coordinates', text => {
+      const parts = COORDINATES_PATTERN.exec(text);
+      return !!parts && Math.abs(Number(parts[1])) <= 90 && Math.abs(Number(parts[3])) <= 180;
+    }) ||
+    (COUNTRY_NAME.test(column.name)
+      ? match('country', text => ALPHA_2_CODES.has(text.toUpperCase()) || ALPHA_3_CODES.has(text.toUpperCase()))
+      : match('country', text => ALPHA_3_CODES.has(text))) ||
+    (PHONE_NAME.test(column.name)
+      ? match('phone', isPhone)
+      : match('phone', text => isPhone(text) && PHONE_SEPARATORS.test(text) && /\d{3}/.test(text))) ||
+    (uniqueness >= 0.95 && isKeyName(column.name) ? { type: 'identifier', confidence: uniqueness } : undefined) ||
+    match('identifier', text => UUID_PATTERN.test(text))
+  );
+};
@@ -0,0 +1,131 @@
+// In-browser SQLite (sql.js) running in a Web Worker. Uploaded rows are loaded
+// into named tables and queries are executed against the real data.
+
+import type { ColumnarTable } from './columnar';
+
+/** View that always points at the active dataset's table */
+export const ACTIVE_VIEW = 'df';
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+export type SqlWorkerRequest =
+  | { id: number; type: 'load'; table: string; data: ColumnarTable }
+  | { id: number; type: 'exec'; sql: string };
+
+export type SqlWorkerResponse =
+  | { id: number; type: 'loaded' }
+  | { id: number; type: 'result'; result: QueryResult }
+  | { id: number; type: 'error'; error: string };
+
+export class SqlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqlError';
+  }
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+// Loaded tables are remembered so a fresh worker can be repopulated after a cancel
+const loadedTables = new Map<string, ColumnarTable>();
+let activeTable: string | null = null;
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const activeViewSql = (table: string) =>
+  `DROP VIEW IF EXISTS ${ACTIVE_VIEW}; CREATE VIEW ${ACTIVE_VIEW} AS SELECT * FROM ${quoteIdentifier(table)}`;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./sql.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SqlWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+
+      if (response.type === 'error') {
+        request.reject(new SqlError(response.error));
+      } else {
+        request.resolve(response.type === 'result' ? response.result : undefined);
+      }
+    };
+    loadedTables.forEach((data, table) => {
+      worker!.postMessage({ id: nextRequestId++, type: 'load', table, data });
+    });
+    if (activeTable) {
+      worker.postMessage({ id: nextRequestId++, type: 'exec', sql: activeViewSql(activeTable) });
+    }
+  }
+  return worker;
+};
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+const send = <T>(request: DistributiveOmit<SqlWorkerRequest, 'id'>) => {
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...request, id });
+  });
+};
+
+/** Replaces `table` with the given data. Column affinity is inferred from the values. */
+export const loadTable = (table: string, data: ColumnarTable) => {
+  // Start the worker before registering, so it isn't sent this table twice
+  getWorker();
+  loadedTables.set(table, data);
+  return send<void>({ type: 'load', table, data });
+};
+
+/** Runs SQL against the loaded tables; rejects with a SqlError carrying SQLite's message. */
+export const runQuery = (sql: string) => send<QueryResult>({ type: 'exec', sql });
+
+export const dropTable = (table: string) => {
+  loadedTables.delete(table);
+  if (activeTable === table) activeTable = null;
+  return runQuery(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`);
+};
+
+/** Points the `df` view at a loaded table, so queries written against `df` follow the active dataset. */
+export const setActiveTable = (table: string) => {
+  activeTable = table;
+  return runQuery(activeViewSql(table));
+};
+
+/**
+ * Aborts every running or queued query. sql.js cannot be interrupted, so the
+ * worker is terminated and a new one is started with the same tables.
+ */
+export const cancelQueries = () => {
+  if (!worker) return;
+  worker.terminate();
+  worker = null;
+  pending.forEach(request => request.reject(new SqlError('Query cancelled')));
+  pending.clear();
+  getWorker();
+};
+
+export interface TableSchema {
+  name: string;
+  columns: { name: string; type: string }[];
+}
+
+/** Lists the tables and views in the database with their columns and SQLite types. */
+export const getSchema = async (): Promise<TableSchema[]> => {
+  const tables = await runQuery("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name");
+  return Promise.all(
+    tables.rows.map(async ({ name }) => {
+      const info = await runQuery(`PRAGMA table_info(${quoteIdentifier(String(name))})`);
+      return {
+        name: String(name),
+        columns: info.rows.map(col => ({ name: String(col.name), type: String(col.type || 'TEXT') })),
+      };
+    })
+  );
+};
@@ -0,0 +1,116 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { getValue, type Column, type ColumnarTable } from './columnar';
+import type { SqlWorkerRequest, SqlWorkerResponse } from './sql';
+
+let dbPromise: Promise<Database> | null = null;
+
+const getDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = initSqlJs({ locateFile: () => sqlWasmUrl }).then(SQL => new SQL.Database());
+  }
+  return dbPromise;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// SQLite column affinity from the loaded values: integers stay INTEGER,
+// any fractional number makes the column REAL, everything else is TEXT.
+const inferColumnType = (column: Column) => {
+  if (column.kind === 'string') return 'TEXT';
+  if (column.kind === 'number') {
+    for (const value of column.values) {
+      if (Number.isFinite(value) && !Number.isInteger(value)) return 'REAL';
+    }
+    return 'INTEGER';
+  }
+
+  let sawNumber = false;
+  let sawFloat = false;
+
+  for (const value of column.values) {
+    if (value === null || value === undefined || value === '') continue;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      sawNumber = true;
+      if (!Number.isInteger(value)) sawFloat = true;
+    } else if (typeof value === 'boolean') {
+      sawNumber = true;
+    } else {
+      return 'TEXT';
+    }
+  }
+
+  if (!sawNumber) return 'TEXT';
+  return sawFloat ? 'REAL' : 'INTEGER';
+};
+
+const toSqlValue = (value: unknown): SqlValue => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+const loadTable = (db: Database, name: string, data: ColumnarTable) => {
+  const { columns } = data;
+  const table = quoteIdentifier(name);
+
+  db.run(`DROP TABLE IF EXISTS ${table}`);
+  if (columns.length === 0) return;
+
+  const columnDefs = columns
+    .map(col => `${quoteIdentifier(col.name)} ${inferColumnType(col)}`)
+    .join(', ');
+  db.run(`CREATE TABLE ${table} (${columnDefs})`);
+
+  const placeholders = columns.map(() => '?').join(', ');
+  const insert = db.prepare(`INSERT INTO ${table} VALUES (${placeholders})`);
+  db.run('BEGIN TRANSACTION');
+  try {
+    for (let i = 0; i < data.rowCount; i++) {
+      insert.run(columns.map(col => toSqlValue(getValue(col, i))));
+    }
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  } finally {
+    insert.free();
+  }
+};
+
+const executeQuery = (db: Database, sql: string) => {
+  const results = db.exec(sql);
+  // Only the last statement's result set is returned, like a SQL console would show
+  const last = results[results.length - 1];
+  if (!last) return { columns: [], rows: [], rowCount: 0 };
+
+  const rows = last.values.map(values =>
+    Object.fromEntries(last.columns.map((col, i) => [col, values[i]]))
+  );
+  return { columns: last.columns, rows, rowCount: rows.length };
+};
+
+self.onmessage = async (event: MessageEvent<SqlWorkerRequest>) => {
+  const request = event.data;
+  let response: SqlWorkerResponse;
+
+  try {
+    const db = await getDatabase();
+    if (request.type === 'load') {
+      loadTable(db, request.table, request.data);
+      response = { id: request.id, type: 'loaded' };
+    } else {
+      response = { id: request.id, type: 'result', result: executeQuery(db, request.sql) };
+    }
+  } catch (error) {
+    response = {
+      id: request.id,
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  self.postMessage(response);
+};
@@ -0,0 +1,117 @@
+import { encodeTable, decodeTable, type ColumnarTable } from './columnar';
+import type { ChartConfig } from './charts';
+import type { ChatMessage } from './chat/messages';
+import type { LLMSettings } from './chat/settings';
+import type { RoleMapping } from './ecommerce';
+import type { ValidationRule } from './validation';
+import type { Dataset } from './workspace';
+
+// Workspaces saved in IndexedDB. The workspace record holds everything small
+// (dataset names, chart settings, the chat thread, model settings); each
+// dataset's rows are stored separately as a gzip-compressed columnar blob and
+// written only once.
+
+export type StoredDataset = Omit<Dataset, 'table' | 'data'> & { rowCount: number; columnCount: number };
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  datasets: StoredDataset[];
+  activeId: string | null;
+  activeTab: string;
+  /** Chart builder settings keyed by dataset id */
+  charts: Record<string, ChartConfig>;
+  /** Validation rules keyed by dataset id; absent from workspaces saved before rules existed */
+  rules?: Record<string, ValidationRule[]>;
+  /** Confirmed e-commerce column roles keyed by dataset id */
+  roles?: Record<string, RoleMapping>;
+  messages: ChatMessage[];
+  /** Model settings used by the chat; absent from workspaces saved before settings moved here */
+  settings?: LLMSettings;
+}
+
+const DB_NAME = 'seesvi';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const TABLES = 'tables';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(WORKSPACES, { keyPath: 'id' });
+        request.result.createObjectStore(TABLES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private browsing, blocked storage) can be retried later
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(name: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return promisify(action(db.transaction(name, mode).objectStore(name)));
+};
+
+const tableKey = (workspaceId: string, datasetId: string) => `${workspaceId}/${datasetId}`;
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Browsers without CompressionStream store the blob as is; reads check the gzip header
+const compress = async (blob: Blob) => {
+  if (typeof CompressionStream === 'undefined') return blob;
+  return new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+};
+
+const decompress = async (blob: Blob) => {
+  const head = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+  if (head[0] !== GZIP_MAGIC[0] || head[1] !== GZIP_MAGIC[1]) return blob.arrayBuffer();
+  return new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer();
+};
+
+/** Saved workspaces, most recently used first. */
+export const listWorkspaces = async () => {
+  const records = await withStore<WorkspaceRecord[]>(WORKSPACES, 'readonly', store => store.getAll());
+  return records.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+/** Model settings of the most recently used workspace that has any, to start new workspaces from. */
+export const latestSettings = async () => (await listWorkspaces()).find(record => record.settings)?.settings;
+
+export const saveWorkspace = (record: WorkspaceRecord) =>
+  withStore(WORKSPACES, 'readwrite', store => store.put(record));
+
+export const deleteWorkspace = async (id: string, datasetIds: string[]) => {
+  await Promise.all(datasetIds.map(datasetId => deleteTable(id, datasetId)));
+  await withStore(WORKSPACES, 'readwrite', store => store.delete(id));
+};
+
+export const saveTable = async (workspaceId: string, datasetId: string, table: ColumnarTable) => {
+  const blob = await compress(encodeTable(table));
+  await withStore(TABLES, 'readwrite', store => store.put(blob, tableKey(workspaceId, datasetId)));
+};
+
+export const loadStoredTable = async (workspaceId: string, datasetId: string) => {
+  const blob = await withStore<Blob | undefined>(TABLES, 'readonly', store => store.get(tableKey(workspaceId, datasetId)));
+  if (!blob) throw new Error('The saved data for this dataset is missing');
+  return decodeTable(await decompress(blob));
+};
+
+export const deleteTable = (workspaceId: string, datasetId: string) =>
+  withStore(TABLES, 'readwrite', store => store.delete(tableKey(workspaceId, datasetId)));
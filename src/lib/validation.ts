@@ -0,0 +1,219 @@
+import { toNumber } from './correlation';
+import { toTime } from './dates';
+
+// Declarative checks on a dataset's columns. A rule set is plain JSON, so it
+// can be downloaded and applied again to the next extract of the same file.
+
+export type RuleKind = 'not_null' | 'unique' | 'range' | 'regex' | 'allowed' | 'date_range' | 'foreign_key';
+
+export interface ValidationRule {
+  id: string;
+  column: string;
+  kind: RuleKind;
+  /** range: inclusive bounds, either may be omitted */
+  min?: number;
+  max?: number;
+  /** regex: the whole value must match */
+  pattern?: string;
+  /** allowed: the permitted values */
+  values?: string[];
+  /** date_range: inclusive bounds as yyyy-MM-dd, either may be omitted */
+  after?: string;
+  before?: string;
+  /** foreign_key: the table name of the referenced dataset and its column */
+  table?: string;
+  tableColumn?: string;
+}
+
+/** The saved form of a rule list; ids only matter within a session */
+export interface RuleSet {
+  version: 1;
+  name: string;
+  rules: Omit<ValidationRule, 'id'>[];
+}
+
+export interface RuleResult {
+  rule: ValidationRule;
+  /** Rows the rule applied to; missing values are only checked by not_null */
+  checked: number;
+  failCount: number;
+  /** Indexes of the first failing rows */
+  samples: number[];
+  /** Set when the rule itself is invalid, e.g. a bad pattern or unknown column */
+  error?: string;
+}
+
+/** Another dataset a foreign key can point at */
+export interface ReferenceTable {
+  tableName: string;
+  data: Record<string, unknown>[];
+}
+
+export const RULE_KINDS: { id: RuleKind; label: string }[] = [
+  { id: 'not_null', label: 'Not null' },
+  { id: 'unique', label: 'Unique' },
+  { id: 'range', label: 'In range' },
+  { id: 'regex', label: 'Matches pattern' },
+  { id: 'allowed', label: 'In allowed set' },
+  { id: 'date_range', label: 'Date within bounds' },
+  { id: 'foreign_key', label: 'Exists in dataset' },
+];
+
+const SAMPLE_SIZE = 10;
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+export const createRule = (column: string, kind: RuleKind = 'not_null'): ValidationRule => ({
+  id: crypto.randomUUID(),
+  column,
+  kind,
+});
+
+/** Plain-language summary of what a rule expects. */
+export const describeRule = (rule: ValidationRule) => {
+  switch (rule.kind) {
+    case 'not_null':
+      return `${rule.column} is never empty`;
+    case 'unique':
+      return `${rule.column} has no repeated values`;
+    case 'range':
+      if (rule.min !== undefined && rule.max !== undefined) return `${rule.column} is between ${rule.min} and ${rule.max}`;
+      if (rule.min !== undefined) return `${rule.column} is at least ${rule.min}`;
+      if (rule.max !== undefined) return `${rule.column} is at most ${rule.max}`;
+      return `${rule.column} is a number`;
+    case 'regex':
+      return `${rule.column} matches /${rule.pattern || ''}/`;
+    case 'allowed':
+      return `${rule.column} is one of ${(rule.values || []).join(', ') || '(none)'}`;
+    case 'date_range':
+      if (rule.after && rule.before) return `${rule.column} is between ${rule.after} and ${rule.before}`;
+      if (rule.after) return `${rule.column} is on or after ${rule.after}`;
+      if (rule.before) return `${rule.column} is on or before ${rule.before}`;
+      return `${rule.column} is a date`;
+    case 'foreign_key':
+      return `${rule.column} exists in ${rule.table || '?'}.${rule.tableColumn || '?'}`;
+  }
+};
+
+// Returns a per-value check, or throws when the rule can't be evaluated
+const compileCheck = (
+  rule: ValidationRule,
+  rows: Record<string, unknown>[],
+  tables: ReferenceTable[]
+): ((value: unknown) => boolean) => {
+  switch (rule.kind) {
+    case 'not_null':
+      return () => true;
+    case 'unique': {
+      const counts = new Map<string, number>();
+      rows.forEach(row => {
+        if (isMissing(row[rule.column])) return;
+        const key = String(row[rule.column]);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+      return value => counts.get(String(value)) === 1;
+    }
+    case 'range':
+      return value => {
+        const number = toNumber(value);
+        if (isNaN(number)) return false;
+        return (rule.min === undefined || number >= rule.min) && (rule.max === undefined || number <= rule.max);
+      };
+    case 'regex': {
+      if (!rule.pattern) throw new Error('No pattern given');
+      let regex: RegExp;
+      try {
+        regex = new RegExp(`^(?:${rule.pattern})$`);
+      } catch {
+        throw new Error(`Invalid pattern: ${rule.pattern}`);
+      }
+      return value => regex.test(String(value));
+    }
+    case 'allowed': {
+      const allowed = new Set(rule.values || []);
+      return value => allowed.has(String(value));
+    }
+    case 'date_range': {
+      const after = rule.after ? toTime(rule.after) : -Infinity;
+      // The whole of the end day is within bounds
+      const before = rule.before ? toTime(rule.before) + (rule.before.length <= 10 ? 86_400_000 - 1 : 0) : Infinity;
+      if (isNaN(after) || isNaN(before)) throw new Error('Invalid date bound');
+      return value => {
+        const time = toTime(value);
+        return !isNaN(time) && time >= after && time <= before;
+      };
+    }
+    case 'foreign_key': {
+      const table = tables.find(t => t.tableName === rule.table);
+      if (!table) throw new Error(`Dataset ${rule.table || '(none)'} is not in the workspace`);
+      if (!rule.tableColumn || !table.data.some(row => rule.tableColumn! in row)) {
+        throw new Error(`Column ${rule.tableColumn || '(none)'} is not in ${table.tableName}`);
+      }
+      const keys = new Set<string>();
+      table.data.forEach(row => {
+        if (!isMissing(row[rule.tableColumn!])) keys.add(String(row[rule.tableColumn!]));
+      });
+      return value => keys.has(String(value));
+    }
+  }
+};
+
+export const evaluateRule = (
+  rows: Record<string, unknown>[],
+  rule: ValidationRule,
+  tables: ReferenceTable[] = []
+): RuleResult => {
+  const result: RuleResult = { rule, checked: 0, failCount: 0, samples: [] };
+  if (rows.length > 0 && !(rule.column in rows[0])) {
+    return { ...result, error: `Column ${rule.column} is not in this dataset` };
+  }
+
+  let check: (value: unknown) => boolean;
+  try {
+    check = compileCheck(rule, rows, tables);
+  } catch (error) {
+    return { ...result, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  rows.forEach((row, index) => {
+    const value = row[rule.column];
+    const missing = isMissing(value);
+    if (missing && rule.kind !== 'not_null') return;
+    result.checked++;
+    if (!missing && check(value)) return;
+    result.failCount++;
+    if (result.samples.length < SAMPLE_SIZE) result.samples.push(index);
+  });
+  return result;
+};
+
+export const evaluateRules = (rows: Record<string, unknown>[], rules: ValidationRule[], tables: ReferenceTable[] = []) =>
+  rules.map(rule => evaluateRule(rows, rule, tables));
+
+export const toRuleSet = (name: string, rules: ValidationRule[]): RuleSet => ({
+  version: 1,
+  name,
+  rules: rules.map(({ id: _id, ...rule }) => rule),
+});
+
+/** Reads a rule set saved by toRuleSet, throwing a readable error for anything else. */
+export const parseRuleSet = (text: string): { name: string; rules: ValidationRule[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const candidate = parsed as Partial<RuleSet>;
+  if (!candidate || !Array.isArray(candidate.rules)) throw new Error('The file does not contain a list of rules');
+
+  const kinds = new Set(RULE_KINDS.map(k => k.id));
+  const rules = candidate.rules.map((rule, index) => {
+    if (!rule || typeof rule.column !== 'string' || !kinds.has(rule.kind)) {
+      throw new Error(`Rule ${index + 1} needs a column and a known kind`);
+    }
+    return { ...rule, id: crypto.randomUUID() };
+  });
+  return { name: typeof candidate.name === 'string' ? candidate.name : 'Rules', rules };
+};
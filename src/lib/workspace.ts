@@ -0,0 +1,45 @@
+import { rowView, type ColumnarTable } from './columnar';
+import { ACTIVE_VIEW } from './sql';
+
+// Datasets open in the workspace. Each one is loaded into SQLite under its own
+// table name, so they can be queried and joined together.
+
+export interface Dataset {
+  id: string;
+  /** Display name, usually the file name */
+  name: string;
+  /** SQLite table holding the rows */
+  tableName: string;
+  /** The imported values, column by column */
+  table: ColumnarTable;
+  /** Read-only rows over `table`, built as they are read */
+  data: Record<string, unknown>[];
+  /** How the dataset was produced, e.g. "orders inner join customers" */
+  derivedFrom?: string;
+}
+
+/** Turns a display name into a unique, unquoted SQL identifier. */
+export const toTableName = (name: string, taken: string[]) => {
+  const base = name
+    .replace(/\.[a-z0-9]+$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .replace(/^(\d)/, 't_$1') || 'dataset';
+
+  const reserved = new Set([ACTIVE_VIEW, ...taken]);
+  let tableName = base;
+  for (let n = 2; reserved.has(tableName); n++) tableName = `${base}_${n}`;
+  return tableName;
+};
+
+export const createDataset = (name: string, table: ColumnarTable, existing: Dataset[], derivedFrom?: string): Dataset => ({
+  id: crypto.randomUUID(),
+  name,
+  tableName: toTableName(name, existing.map(d => d.tableName)),
+  table,
+  data: rowView(table),
+  derivedFrom,
+});
+
+export const getColumns = (dataset: Dataset) => dataset.table.columns.map(column => column.name);